@@ -1,203 +1,1153 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Sparkles, 
   Terminal, 
   Copy, 
   Check, 
   Trash2, 
-  History, 
   Settings2,
   ChevronRight,
   Zap,
   RotateCcw,
   Key,
-  Cpu
+  Cpu,
+  Square,
+  Plus,
+  Columns3,
+  Undo2,
+  Redo2,
+  GitCompare,
+  Send,
+  FlaskConical,
+  Share2,
+  Server,
+  BarChart3,
+  Layers,
+  LayoutList,
+  Lock,
+  CloudOff,
+  Search,
+  Microscope,
+  AlertTriangle
 } from 'lucide-react';
-import { RefinementGoal, RefinementHistory } from './types.ts';
-import { refinePrompt } from './services/geminiService.ts';
+import { ABTestRating, CritiqueAnnotation, GoalDefinition, OutputFormat, PromptAttachment, PromptRevision, PromptCritique, ProviderConfig, RefinementGoal, RefinementHistory, RefinementSettings, StructuredPrompt, TokenUsage } from './types.ts';
+import {
+  StreamRefinementResult,
+  TokenCount,
+  countRefinementTokens,
+  estimateTokens,
+  getSystemInstruction,
+  refinePromptStream,
+  refinePromptStructured,
+  revisePromptStream,
+  revisePromptStructured
+} from './services/geminiService.ts';
+import {
+  ComposedGoal,
+  DEFAULT_GOAL_WEIGHT,
+  composeGoals,
+  createRefinementSettings,
+  findGoal,
+  loadCustomGoals,
+  mergeGoals,
+  saveCustomGoals,
+  settingsOfEntry
+} from './services/goalRegistry.ts';
+import GoalManager from './components/GoalManager.tsx';
+import GoalComposer from './components/GoalComposer.tsx';
+import ComparePanel, { CompareResult } from './components/ComparePanel.tsx';
+import RevisionDiff from './components/RevisionDiff.tsx';
+import TemplatePanel from './components/TemplatePanel.tsx';
+import TryItPanel from './components/TryItPanel.tsx';
+import Scorecard from './components/Scorecard.tsx';
+import HistoryLibrary from './components/HistoryLibrary.tsx';
+import TransferDialog, { ImportSummary } from './components/TransferDialog.tsx';
+import { clearHistoryStore, deleteHistoryEntry, loadHistory, putHistoryEntries, putHistoryEntry } from './services/historyStore.ts';
+import { BundleImportReport, mergeCustomGoals, mergeHistoryEntries } from './services/bundleService.ts';
+import { createShareUrl, hasShareFragment, readShareFragment } from './services/shareService.ts';
+import { GEMINI_PROVIDER_ID, createProvider, findProviderForModel, loadLegacyProviderKeys, loadProviderCatalog, saveProviderCatalog } from './services/providerCatalog.ts';
+import ProviderSettings from './components/ProviderSettings.tsx';
+import KeyVaultDialog from './components/KeyVaultDialog.tsx';
+import { KeyProfile, KeyVault, UnlockedVault, findProviderKey, loadKeyVault, loadLegacyApiKey, saveKeyVault } from './services/keyVault.ts';
+import ErrorNotice from './components/ErrorNotice.tsx';
+import { LLMError, toDisplayError } from './services/providers/llmErrors.ts';
+import { RetryNotice } from './services/retryPolicy.ts';
+import UsageDashboard from './components/UsageDashboard.tsx';
+import {
+  UsageBudget,
+  UsageRecord,
+  UsageSource,
+  checkBudget,
+  collectUsage,
+  createUsageRecord,
+  estimateOutputTokens,
+  estimatedUsage,
+  hasUsageLedger,
+  loadUsageBudget,
+  loadUsageLedger,
+  saveUsageBudget,
+  saveUsageLedger
+} from './services/usageLedger.ts';
+import { costOfUsage, estimateCost, formatCost, getModelPricing } from './services/pricing.ts';
+import BatchPanel from './components/BatchPanel.tsx';
+import { BatchItem } from './services/batchQueue.ts';
+import PromptSections from './components/PromptSections.tsx';
+import { OUTPUT_FORMATS, mapStructuredPrompt, renderStructuredPrompt } from './services/outputFormats.ts';
+import HighlightedTextarea from './components/HighlightedTextarea.tsx';
+import LintPanel from './components/LintPanel.tsx';
+import AttachmentsPanel from './components/AttachmentsPanel.tsx';
+import { attachmentText } from './services/referenceContext.ts';
+import {
+  LintSettings,
+  Redactions,
+  lintPrompt,
+  loadLintSettings,
+  reapplyRedactions,
+  redactFindings,
+  restoreRedactions,
+  saveLintSettings,
+  summarizeFindings
+} from './services/preflightLint.ts';
+import OutboxPanel from './components/OutboxPanel.tsx';
+import { OUTBOX_RETRY_DELAY_MS, OutboxItem, createOutboxId, loadOutbox, runOutboxItem, saveOutbox } from './services/outbox.ts';
+import CommandPalette, { PaletteCommand } from './components/CommandPalette.tsx';
+import ShortcutSettings from './components/ShortcutSettings.tsx';
+import CritiquePanel from './components/CritiquePanel.tsx';
+import { CRITIQUE_CATEGORIES, analyzePrompt, applySuggestion, locateQuote } from './services/promptAnalysis.ts';
+import { ShortcutActionId, ShortcutBindings, findShortcutAction, formatBinding, loadShortcutBindings, saveShortcutBindings } from './services/shortcuts.ts';
 
-// Recommended Gemini 3 series models for text tasks.
-const AVAILABLE_MODELS = [
-  { id: 'gemini-3-flash-preview', name: '3 Flash', desc: 'Fast & Balanced' },
-  { id: 'gemini-3-pro-preview', name: '3 Pro', desc: 'Complex Reasoning' },
-  { id: 'gemini-2.5-flash-lite', name: '2.5 Flash Lite', desc: 'Lightweight & Quick' },
-];
+/**
+ * The refinement currently shown in the REFINED panel. `index` points at the
+ * active revision so undo/redo can move through the chain without losing it.
+ */
+interface RefineSession {
+  entry: RefinementHistory;
+  index: number;
+}
+
+const revisionsOf = (entry: RefinementHistory): PromptRevision[] =>
+  entry.revisions?.length
+    ? entry.revisions
+    : [{ text: entry.refined, status: entry.status, timestamp: entry.timestamp }];
 
 const App: React.FC = () => {
   const [input, setInput] = useState('');
   const [refined, setRefined] = useState('');
-  const [goal, setGoal] = useState<RefinementGoal>(RefinementGoal.GENERAL);
+  const [refinementSettings, setRefinementSettings] = useState<RefinementSettings>(() => createRefinementSettings(RefinementGoal.GENERAL));
+  const [customGoals, setCustomGoals] = useState<GoalDefinition[]>(loadCustomGoals);
+  // A custom goal that came with a share link. It is usable right away but only kept once an entry that uses it is saved.
+  const [sharedGoal, setSharedGoal] = useState<GoalDefinition | null>(null);
+  const [isGoalManagerOpen, setIsGoalManagerOpen] = useState(false);
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [session, setSession] = useState<RefineSession | null>(null);
+  const [followUp, setFollowUp] = useState('');
+  const [showDiff, setShowDiff] = useState(false);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('text');
+  // Reference material and examples sent with the draft.
+  const [attachments, setAttachments] = useState<PromptAttachment[]>([]);
+  // Structured results open part by part; this switches to the single rendered text.
+  const [showRawOutput, setShowRawOutput] = useState(false);
+  const [isTryItOpen, setIsTryItOpen] = useState(false);
+  // Entries to export when the import/export dialog is open; null while closed.
+  const [transferSelection, setTransferSelection] = useState<RefinementHistory[] | null>(null);
+  const [providers, setProviders] = useState<ProviderConfig[]>(loadProviderCatalog);
+  const [providerId, setProviderId] = useState(GEMINI_PROVIDER_ID);
+  const [isProviderSettingsOpen, setIsProviderSettingsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [budget, setBudget] = useState<UsageBudget>(loadUsageBudget);
+  // Every billed call, kept apart from the library so deleting entries doesn't erase spend.
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(loadUsageLedger);
+  const [lintSettings, setLintSettings] = useState<LintSettings>(loadLintSettings);
+  // Placeholders swapped into the draft by the pre-flight redaction, mapped to the real values.
+  const [redactions, setRedactions] = useState<Redactions>({});
+  // Input tokens for the current draft, counted shortly after typing stops.
+  const [inputTokens, setInputTokens] = useState<TokenCount | null>(null);
   const [selectedModel, setSelectedModel] = useState('gemini-3-flash-preview');
   const [isLoading, setIsLoading] = useState(false);
   const [history, setHistory] = useState<RefinementHistory[]>([]);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
   const [copied, setCopied] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Initialize state directly from localStorage to prevent flash of content
-  const [customApiKey, setCustomApiKey] = useState(() => {
-    return localStorage.getItem('custom_gemini_api_key') || '';
-  });
-  
-  const [hasCustomKey, setHasCustomKey] = useState(() => {
-    return !!localStorage.getItem('custom_gemini_api_key');
-  });
-
-  const [isKeyModalOpen, setIsKeyModalOpen] = useState(() => {
-    return !localStorage.getItem('custom_gemini_api_key');
-  });
-
-  // Load history from local storage
+  const [error, setError] = useState<LLMError | string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Refinements requested while offline, sent once the connection is back.
+  const [outbox, setOutbox] = useState<OutboxItem[]>(loadOutbox);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [sendingOutboxId, setSendingOutboxId] = useState<string | null>(null);
+  // Set after a queued request still could not reach the provider, to wait before trying again.
+  const [isOutboxHeld, setIsOutboxHeld] = useState(false);
+  const outboxControllerRef = useRef<AbortController | null>(null);
+  const [shortcutBindings, setShortcutBindings] = useState<ShortcutBindings>(loadShortcutBindings);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isShortcutSettingsOpen, setIsShortcutSettingsOpen] = useState(false);
+  // Always the latest handler, so the window listener never calls a stale closure.
+  const shortcutHandlerRef = useRef<(action: ShortcutActionId) => void>(() => {});
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Which request the error banner's RETRY action re-sends.
+  const lastRequestRef = useRef<'refine' | 'revise' | 'analyze'>('refine');
+  // Analyze mode's critique of the raw prompt, marked on the input while it is open.
+  const [critique, setCritique] = useState<PromptCritique | null>(null);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Encrypted key profiles; the decrypted keys only exist in memory while unlocked.
+  const [vault, setVault] = useState<KeyVault | null>(loadKeyVault);
+  const [unlockedVault, setUnlockedVault] = useState<UnlockedVault | null>(null);
+  // Keys start out locked, so ask for the passphrase (or a first key) on launch.
+  const [isKeyModalOpen, setIsKeyModalOpen] = useState(true);
+  // Keys that earlier versions stored unencrypted stay until the vault is set up or unlocked and imports them.
+  const hasPlainTextKeys = () => !!loadLegacyApiKey() || Object.keys(loadLegacyProviderKeys()).length > 0;
+  const [plainTextKeysPending, setPlainTextKeysPending] = useState(hasPlainTextKeys);
+
+  const activeProvider = providers.find(p => p.id === providerId) || providers[0];
+  const models = activeProvider.models;
+  const providerKey = (config: ProviderConfig) => findProviderKey(vault, unlockedVault, config.id);
+  const apiKey = providerKey(activeProvider);
+  const llm = createProvider(activeProvider, apiKey);
+  const activeProfile = unlockedVault ? vault?.profiles.find(p => p.id === vault.activeProfileId) : undefined;
+  // Every model across providers, for filtering a library that may mix them.
+  const allModels = providers
+    .flatMap(p => p.models)
+    .filter((m, index, list) => list.findIndex(other => other.id === m.id) === index);
+  const modelToUse = activeProvider.kind === 'gemini' && !apiKey ? 'gemini-2.5-flash' : selectedModel;
+
+  // Estimated cost of a call, or undefined when the model has no known price.
+  const estimateRequestCost = (promptTokens: number, model: string) => {
+    const pricing = getModelPricing(model, allModels);
+    return pricing && estimateCost(promptTokens, estimateOutputTokens(usageRecords, model), pricing);
+  };
+  // Total of several estimates; unknown when any of them is.
+  const sumCosts = (costs: (number | undefined)[]) =>
+    costs.some(c => c === undefined) ? undefined : costs.reduce((sum, c) => sum! + c!, 0);
+  const estimatedCost = inputTokens ? estimateRequestCost(inputTokens.tokens, modelToUse) : undefined;
+
+  // Load the library from IndexedDB (migrating legacy localStorage history on first run)
   useEffect(() => {
-    const savedHistory = localStorage.getItem('prompt_history');
-    if (savedHistory) {
-      try {
-        setHistory(JSON.parse(savedHistory));
-      } catch (e) {
-        console.error("Failed to load history");
-      }
+    loadHistory()
+      .then((entries) => {
+        setHistory(entries);
+        // Libraries from before the ledger existed start it with the usage they recorded.
+        if (!hasUsageLedger()) setUsageRecords(prev => [...collectUsage(entries, allModels), ...prev]);
+      })
+      .catch((e) => {
+        console.error("Failed to load history", e);
+        setError("Could not open the prompt library. History will not be saved in this session.");
+      })
+      .finally(() => setIsHistoryLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    saveCustomGoals(customGoals);
+  }, [customGoals]);
+
+  useEffect(() => {
+    saveProviderCatalog(providers);
+  }, [providers]);
+
+  useEffect(() => {
+    saveUsageBudget(budget);
+  }, [budget]);
+
+  // Held back until the library has loaded, so the ledger can still be seeded from it.
+  useEffect(() => {
+    if (isHistoryLoaded) saveUsageLedger(usageRecords);
+  }, [usageRecords, isHistoryLoaded]);
+
+  useEffect(() => {
+    saveLintSettings(lintSettings);
+  }, [lintSettings]);
+
+  useEffect(() => {
+    saveKeyVault(vault);
+  }, [vault]);
+
+  useEffect(() => {
+    if (!saveOutbox(outbox)) {
+      setError("The outbox could not be saved in this browser. Queued refinements will still be sent while this page stays open.");
     }
+  }, [outbox]);
+
+  useEffect(() => {
+    saveShortcutBindings(shortcutBindings);
+  }, [shortcutBindings]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.repeat) return;
+      const action = findShortcutAction(shortcutBindings, e);
+      if (!action) return;
+      // In a form, such as the follow-up box, the refine shortcut submits that form instead.
+      if (action === 'refine' && e.target instanceof Element && e.target.closest('form')) return;
+      e.preventDefault();
+      shortcutHandlerRef.current(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcutBindings]);
+
+  useEffect(() => {
+    const update = () => {
+      setIsOnline(navigator.onLine);
+      if (navigator.onLine) setIsOutboxHeld(false);
+    };
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
   }, []);
 
+  // Send queued refinements one at a time, oldest first, while online and unlocked
+  const isWaitingForKeys = !!vault && !unlockedVault;
+  useEffect(() => {
+    if (!isOnline || isOutboxHeld || isWaitingForKeys || sendingOutboxId) return;
+    const item = outbox.find(i => i.status === 'queued');
+    if (!item) return;
+    const config = providers.find(p => p.id === item.providerId);
+    if (!config) {
+      setOutbox(prev => prev.map(i => (i.id === item.id ? { ...i, status: 'failed', error: "Its provider was removed." } : i)));
+      return;
+    }
+    const controller = new AbortController();
+    outboxControllerRef.current = controller;
+    setSendingOutboxId(item.id);
+    const recovery = { fallbackModels: config.fallbackModels, signal: controller.signal };
+    runOutboxItem(item, composeGoals(goals, item.settings), createProvider(config, providerKey(config)), recovery)
+      .then((entry) => {
+        if (controller.signal.aborted) return;
+        const revision = entry.revisions![0];
+        recordUsage('refine', entry.model || item.model, entry.goal, revision.usage, revision.latencyMs);
+        upsertHistoryEntry(entry);
+        setOutbox(prev => prev.filter(i => i.id !== item.id));
+        setNotice("A refinement from the outbox finished and was saved to your library.");
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        // Online but still unreachable: keep the item queued and try again shortly.
+        if (err instanceof LLMError && err.kind === 'network') {
+          setIsOutboxHeld(true);
+          setTimeout(() => setIsOutboxHeld(false), OUTBOX_RETRY_DELAY_MS);
+          return;
+        }
+        setOutbox(prev => prev.map(i => (i.id === item.id ? { ...i, status: 'failed', error: err.message || "The refinement failed." } : i)));
+      })
+      .finally(() => {
+        if (outboxControllerRef.current === controller) outboxControllerRef.current = null;
+        setSendingOutboxId(null);
+      });
+  }, [isOnline, isOutboxHeld, isWaitingForKeys, sendingOutboxId, outbox]);
+
+  // Lock the keys after a stretch without any interaction
+  const autoLockMinutes = vault?.autoLockMinutes || 0;
+  useEffect(() => {
+    if (!unlockedVault || !autoLockMinutes) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        setUnlockedVault(null);
+        setNotice(`Your API keys were locked after ${autoLockMinutes} minutes of inactivity. Unlock them to keep refining.`);
+      }, autoLockMinutes * 60_000);
+    };
+    const events = ['pointerdown', 'keydown', 'wheel'] as const;
+    events.forEach(event => window.addEventListener(event, restart, { passive: true }));
+    restart();
+    return () => {
+      clearTimeout(timer);
+      events.forEach(event => window.removeEventListener(event, restart));
+    };
+  }, [unlockedVault, autoLockMinutes]);
+
+  // Count the draft's input tokens once typing pauses
+  useEffect(() => {
+    if (!input.trim()) {
+      setInputTokens(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      countRefinementTokens(input, composedGoal, modelToUse, llm, controller.signal, attachments)
+        .then(setInputTokens)
+        .catch(() => setInputTokens(null));
+    }, 800);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [input, attachments, refinementSettings, customGoals, modelToUse, providers, providerId, apiKey]);
+
+  // Hydrate from a share link in the URL fragment
   useEffect(() => {
-    localStorage.setItem('prompt_history', JSON.stringify(history));
-  }, [history]);
+    const hash = window.location.hash;
+    if (!hasShareFragment(hash)) return;
+    // Drop the fragment so reloading the page doesn't load the shared prompt again.
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+
+    readShareFragment(hash)
+      .then((payload) => {
+        if (!payload) return;
+        setSharedGoal(payload.goalDefinition || null);
+        if (payload.model) selectModel(payload.model);
+        setRefinementSettings(payload.settings || createRefinementSettings(payload.goalId || payload.goal));
+        setInput(payload.original);
+        startSession({
+          id: `shared-${Date.now()}`,
+          original: payload.original,
+          refined: payload.refined,
+          goal: payload.goal,
+          goalId: payload.goalId,
+          settings: payload.settings,
+          model: payload.model,
+          timestamp: Date.now(),
+          status: 'complete'
+        });
+        setNotice("Loaded a shared prompt. Revise or rate it to save it to your library.");
+      })
+      .catch((err) => setError(err.message || "Could not open the share link."));
+  }, []);
+
+  const goals = mergeGoals(sharedGoal ? mergeCustomGoals(customGoals, [sharedGoal]).merged : customGoals);
+  const composedGoal = composeGoals(goals, refinementSettings);
+  // The primary goal, which names the entry and sets the sampling parameters.
+  const goal = composedGoal.definitions[0];
+  const sessionRevisions = session ? revisionsOf(session.entry) : [];
+  const activeRevision = session ? sessionRevisions[session.index] : undefined;
+  const activeRevisionCost = session && activeRevision?.usage
+    ? costOfUsage(activeRevision.usage, getModelPricing(activeRevision.model || session.entry.model || '', allModels))
+    : undefined;
+  const previousRevision = session && session.index > 0 ? sessionRevisions[session.index - 1] : undefined;
+  const sessionFormat = session?.entry.outputFormat || 'text';
+  const lintFindings = useMemo(() => lintPrompt(input, lintSettings), [input, lintSettings]);
+  const redactedCount = Object.keys(redactions).filter(placeholder => input.includes(placeholder)).length;
 
   const handleOpenKeySelector = () => {
     setIsKeyModalOpen(true);
   };
 
-  const handleSaveKey = (key: string) => {
-    localStorage.setItem('custom_gemini_api_key', key);
-    setCustomApiKey(key);
-    setHasCustomKey(!!key);
-    setIsKeyModalOpen(false);
+  const clearInput = () => {
+    setInput('');
+    setRedactions({});
+    setCritique(null);
+  };
+
+  // Picks a single goal, keeping intensity, length and language.
+  const selectGoal = (id: string) => {
+    setRefinementSettings(prev => ({ ...prev, goals: [{ goalId: id, weight: DEFAULT_GOAL_WEIGHT }] }));
+  };
+
+  const cycleGoal = () => {
+    const index = goals.findIndex(g => g.id === goal.id);
+    selectGoal(goals[(index + 1) % goals.length].id);
+  };
+
+  const cycleModel = () => {
+    const index = models.findIndex(m => m.id === selectedModel);
+    setSelectedModel(models[(index + 1) % models.length].id);
+  };
+
+  const handleVaultChange = (next: KeyVault | null, unlocked: UnlockedVault | null) => {
+    setVault(next);
+    setUnlockedVault(unlocked);
+    setPlainTextKeysPending(hasPlainTextKeys());
+  };
+
+  const handleActivateProfile = (profile: KeyProfile) => {
+    const provider = providers.find(p => p.id === profile.providerId);
+    if (!provider) return;
+    setVault(prev => prev && { ...prev, activeProfileId: profile.id });
+    setProviderId(provider.id);
+    setSelectedModel(provider.models.some(m => m.id === profile.model) ? profile.model : provider.models[0].id);
+  };
+
+  const handleSaveGoal = (definition: GoalDefinition) => {
+    setCustomGoals(prev =>
+      prev.some(g => g.id === definition.id)
+        ? prev.map(g => (g.id === definition.id ? definition : g))
+        : [...prev, definition]
+    );
+  };
+
+  const handleDeleteGoal = (id: string) => {
+    setCustomGoals(prev => prev.filter(g => g.id !== id));
+    setRefinementSettings(prev => ({ ...prev, goals: prev.goals.filter(g => g.goalId !== id) }));
+  };
+
+  const switchProvider = (provider: ProviderConfig) => {
+    setProviderId(provider.id);
+    if (!provider.models.some(m => m.id === selectedModel)) {
+      setSelectedModel(provider.models[0].id);
+    }
+  };
+
+  // Selects a model from whichever provider lists it. Unknown models leave the selection unchanged.
+  const selectModel = (modelId: string, preferredProviderId?: string) => {
+    const provider = findProviderForModel(providers, modelId, preferredProviderId);
+    if (!provider) return;
+    setProviderId(provider.id);
+    setSelectedModel(modelId);
+  };
+
+  const handleSaveProviders = (next: ProviderConfig[]) => {
+    setProviders(next);
+    const active = next.find(p => p.id === activeProvider.id) || next[0];
+    setProviderId(active.id);
+    if (!active.models.some(m => m.id === selectedModel)) {
+      setSelectedModel(active.models[0].id);
+    }
+    setIsProviderSettingsOpen(false);
+  };
+
+  const upsertHistoryEntry = (entry: RefinementHistory) => {
+    if (sharedGoal && settingsOfEntry(entry).goals.some(g => g.goalId === sharedGoal.id)) {
+      setCustomGoals(prev => mergeCustomGoals(prev, [sharedGoal]).merged);
+      setSharedGoal(null);
+    }
+    setHistory(prev =>
+      prev.some(h => h.id === entry.id)
+        ? prev.map(h => (h.id === entry.id ? entry : h))
+        : [entry, ...prev]
+    );
+    setSession(prev => (prev && prev.entry.id === entry.id ? { ...prev, entry: { ...entry, revisions: revisionsOf(entry) } } : prev));
+    putHistoryEntry(entry).catch((e) => console.error("Failed to save history entry", e));
+  };
+
+  const deleteEntry = (id: string) => {
+    setHistory(prev => prev.filter(h => h.id !== id));
+    deleteHistoryEntry(id).catch((e) => console.error("Failed to delete history entry", e));
+  };
+
+  const startSession = (entry: RefinementHistory) => {
+    const revisions = revisionsOf(entry);
+    setSession({ entry: { ...entry, revisions }, index: revisions.length - 1 });
+    setRefined(entry.refined);
+    setFollowUp('');
+    setShowDiff(false);
+  };
+
+  const modelName = (id: string) => allModels.find(m => m.id === id)?.name || id;
+
+  // Keeps the user informed while a request waits for a retry or moves down the fallback chain.
+  const handleRetryNotice = ({ model, error, attempt, delayMs, fallbackModel }: RetryNotice) => {
+    setNotice(fallbackModel
+      ? `${modelName(model)} failed: ${error.message} Falling back to ${modelName(fallbackModel)}...`
+      : `${error.message} Retrying in ${Math.ceil((delayMs || 0) / 1000)}s (attempt ${attempt})...`);
+  };
+
+  // A stopped or interrupted call reports no usage but is still billed, so `sent` lets it be recorded from an estimate.
+  const recordUsage = (
+    source: UsageSource,
+    model: string,
+    goalName: string,
+    usage?: TokenUsage,
+    latencyMs?: number,
+    sent?: { prompt: string; output: string }
+  ) => {
+    if (usage) {
+      setUsageRecords(prev => [...prev, createUsageRecord(source, model, goalName, usage, allModels, latencyMs)]);
+    } else if (sent) {
+      const estimate = estimatedUsage(estimateTokens(sent.prompt), estimateTokens(sent.output));
+      setUsageRecords(prev => [...prev, { ...createUsageRecord(source, model, goalName, estimate, allModels, latencyMs), estimated: true }]);
+    }
+  };
+
+  // Applies the budget cap. Returns false when the request should not be sent.
+  const confirmWithinBudget = (cost: number | undefined) => {
+    if (cost === undefined) return true;
+    const problem = checkBudget(budget, usageRecords, cost);
+    if (!problem) return true;
+    if (budget.mode === 'block') {
+      setError(problem);
+      return false;
+    }
+    return confirm(`${problem}\n\nSend it anyway?`);
+  };
+
+  // Applies the pre-flight rules to text about to be sent. Returns false when it should not be sent.
+  const confirmPreflight = (texts: string[]) => {
+    const findings = texts.flatMap(text => lintPrompt(text, lintSettings));
+    const blocked = findings.filter(f => f.action === 'block');
+    if (blocked.length > 0) {
+      setError(`Not sent: the prompt contains ${summarizeFindings(blocked)}. Redact them, or set the rule to warn or off.`);
+      return false;
+    }
+    return findings.length === 0 || confirm(`The prompt contains ${summarizeFindings(findings)}.\n\nSend it anyway?`);
+  };
+
+  // Keeps a refinement requested while offline so it runs once the connection is back.
+  const queueRefinement = () => {
+    setOutbox(prev => [...prev, {
+      id: createOutboxId(),
+      prompt: input,
+      redactions,
+      settings: composedGoal.settings,
+      model: modelToUse,
+      providerId: activeProvider.id,
+      outputFormat: outputFormat === 'text' ? undefined : outputFormat,
+      attachments: attachments.length ? attachments : undefined,
+      createdAt: Date.now(),
+      status: 'queued',
+    }]);
+    setNotice(
+      "You're offline. The refinement was added to the outbox and will run when the connection is back." +
+      (Object.keys(redactions).length > 0 || attachments.length > 0 ? " Keep this page open: its redacted values and attachments aren't saved." : '')
+    );
+  };
+
+  const cancelOutboxItem = (id: string) => {
+    if (id === sendingOutboxId) outboxControllerRef.current?.abort();
+    setOutbox(prev => prev.filter(i => i.id !== id));
+  };
+
+  const retryOutboxItem = (id: string) => {
+    setOutbox(prev => prev.map(i => (i.id === id ? { ...i, status: 'queued', error: undefined } : i)));
+  };
+
+  const handleRedact = () => {
+    const result = redactFindings(input, lintFindings, redactions);
+    setInput(result.text);
+    setRedactions(result.redactions);
+  };
+
+  // Swaps values redacted in this session for their placeholders again, for anything that leaves the app.
+  const redact = (text: string) => reapplyRedactions(text, redactions);
+
+  // Puts redacted values back into a result. Structured results are re-rendered so JSON stays valid.
+  const revealRedactions = <T extends { text: string; structured?: StructuredPrompt }>(result: T, format: OutputFormat): T => {
+    if (Object.keys(redactions).length === 0) return result;
+    const reveal = (text: string) => restoreRedactions(text, redactions);
+    const structured = result.structured && mapStructuredPrompt(result.structured, reveal);
+    return { ...result, structured, text: structured ? renderStructuredPrompt(structured, format) : reveal(result.text) };
   };
 
   const handleRefine = async () => {
     if (!input.trim()) return;
+    setError(null);
+    if (!confirmPreflight([input, ...attachments.map(attachmentText)])) return;
+    if (!confirmWithinBudget(estimateRequestCost(inputTokens?.tokens ?? estimateTokens(input + attachments.map(attachmentText).join('\n')), modelToUse))) return;
+    if (!navigator.onLine) {
+      queueRefinement();
+      return;
+    }
     
+    lastRequestRef.current = 'refine';
+    const sentPrompt = getSystemInstruction(composedGoal, input, outputFormat, attachments) + input;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
+    setNotice(null);
+    setRefined('');
+    setSession(null);
     try {
-      const modelToUse = hasCustomKey ? selectedModel : 'gemini-2.5-flash';
-      const result = await refinePrompt(input, goal, modelToUse, customApiKey);
-      setRefined(result);
-      
+      const options = {
+        onChunk: setRefined,
+        signal: controller.signal,
+        fallbackModels: activeProvider.fallbackModels,
+        onRetry: handleRetryNotice,
+      };
+      const response: StreamRefinementResult & { structured?: StructuredPrompt } = outputFormat === 'text'
+        ? await refinePromptStream(input, composedGoal, modelToUse, llm, options, attachments)
+        : { ...(await refinePromptStructured(input, composedGoal, outputFormat, modelToUse, llm, options, attachments)), status: 'complete' };
+      recordUsage('refine', response.model, goal.name, response.usage, response.latencyMs, { prompt: sentPrompt, output: response.text });
+      const result = revealRedactions(response, outputFormat);
+      setRefined(result.text);
+      setNotice(result.model !== modelToUse ? `Refined with ${modelName(result.model)} because ${modelName(modelToUse)} was unavailable.` : null);
+
+      if (result.status === 'aborted') {
+        setNotice(result.text ? "Refinement stopped. The partial result was saved to history." : "Refinement stopped before any output was received.");
+      } else if (result.status === 'partial' && result.error) {
+        setError(new LLMError(result.error.kind, `The stream was interrupted: ${result.error.message} The partial result was saved to history.`));
+      }
+
+      // Nothing to keep if the request was stopped before the first chunk.
+      if (!result.text) return;
+
       const newEntry: RefinementHistory = {
         id: Date.now().toString(),
-        original: input,
-        refined: result,
-        goal: goal,
-        timestamp: Date.now()
+        original: restoreRedactions(input, redactions),
+        refined: result.text,
+        goal: goal.name,
+        goalId: goal.id,
+        settings: composedGoal.settings,
+        model: result.model,
+        providerId: activeProvider.id,
+        outputFormat: outputFormat === 'text' ? undefined : outputFormat,
+        attachments: attachments.length ? attachments : undefined,
+        timestamp: Date.now(),
+        status: result.status,
+        revisions: [{
+          text: result.text,
+          status: result.status,
+          timestamp: Date.now(),
+          model: result.model,
+          usage: result.usage,
+          latencyMs: result.latencyMs,
+          structured: result.structured,
+        }]
       };
-      setHistory(prev => [newEntry, ...prev].slice(0, 10));
+      upsertHistoryEntry(newEntry);
+      startSession(newEntry);
+    } catch (err: any) {
+      // Structured requests are not streamed, so stopping one leaves nothing to keep.
+      if (controller.signal.aborted) {
+        recordUsage('refine', modelToUse, goal.name, undefined, undefined, { prompt: sentPrompt, output: '' });
+        setNotice("Refinement stopped before any output was received.");
+        return;
+      }
+      setNotice(null);
+      setError(toDisplayError(err));
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const handleAnalyze = async () => {
+    if (!input.trim()) return;
+    setError(null);
+    if (!confirmPreflight([input])) return;
+    if (!confirmWithinBudget(estimateRequestCost(inputTokens?.tokens ?? estimateTokens(input), modelToUse))) return;
+
+    lastRequestRef.current = 'analyze';
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    setNotice(null);
+    try {
+      const result = await analyzePrompt(input, modelToUse, llm, {
+        signal: controller.signal,
+        fallbackModels: activeProvider.fallbackModels,
+        onRetry: handleRetryNotice,
+      });
+      recordUsage('analyze', result.model, '', result.usage);
+      setCritique(result);
+      setActiveAnnotationId(null);
+      setNotice(result.model !== modelToUse ? `Analyzed with ${modelName(result.model)} because ${modelName(modelToUse)} was unavailable.` : null);
     } catch (err: any) {
-      setError(err.message || "An error occurred");
-      if (err.message?.includes("Requested entity was not found")) {
-        // Don't auto-disable key, just warn
-        // setHasCustomKey(false);
+      if (controller.signal.aborted) {
+        recordUsage('analyze', modelToUse, '', undefined, undefined, { prompt: input, output: '' });
+        setNotice("Analysis stopped.");
+        return;
       }
+      setNotice(null);
+      setError(toDisplayError(err));
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // Selects an annotated span in the raw prompt.
+  const selectAnnotation = (annotation: CritiqueAnnotation) => {
+    const range = locateQuote(input, annotation.quote, annotation.start);
+    const textarea = inputRef.current;
+    if (!range || !textarea) return;
+    setActiveAnnotationId(annotation.id);
+    textarea.focus();
+    textarea.setSelectionRange(range.start, range.end);
+  };
+
+  const applyAnnotation = (annotation: CritiqueAnnotation) => {
+    if (!critique) return;
+    const result = applySuggestion(input, critique, annotation.id);
+    if (!result) return;
+    setInput(result.text);
+    setCritique(result.critique);
+  };
+
+  const dismissAnnotation = (id: string) => {
+    setCritique(prev => prev && { ...prev, annotations: prev.annotations.filter(a => a.id !== id) });
+  };
+
+  const handleRevise = async () => {
+    if (!session || !followUp.trim()) return;
+
+    const { entry, index } = session;
+    // Revising from an older version discards the versions after it, like a new edit after undo.
+    const baseRevisions = revisionsOf(entry).slice(0, index + 1);
+    const instruction = followUp.trim();
+    lastRequestRef.current = 'revise';
+    // Revise with the provider that produced the entry; fall back to the current one if it was removed.
+    const entryProvider = providers.find(p => p.id === (entry.providerId || GEMINI_PROVIDER_ID));
+    const reviseModel = (entryProvider && entry.model) || selectedModel;
+    // The whole revision chain is resent, so estimate from all of it.
+    const chainText = [
+      entry.original,
+      ...(entry.attachments || []).map(attachmentText),
+      ...baseRevisions.flatMap(r => [r.instruction || '', r.text]),
+      instruction,
+    ].join('\n');
+    setError(null);
+    if (!confirmPreflight([instruction])) return;
+    if (!confirmWithinBudget(estimateRequestCost(estimateTokens(chainText), reviseModel))) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    setNotice(null);
+    setShowDiff(false);
+    try {
+      const options = {
+        onChunk: setRefined,
+        signal: controller.signal,
+        fallbackModels: (entryProvider || activeProvider).fallbackModels,
+        onRetry: handleRetryNotice,
+      };
+      const reviseGoal = composeGoals(goals, settingsOfEntry(entry));
+      const reviseProvider = createProvider(entryProvider || activeProvider, providerKey(entryProvider || activeProvider));
+      // Revisions keep the entry's output format.
+      const format = entry.outputFormat || 'text';
+      const sentOriginal = redact(entry.original);
+      const sentInstruction = redact(instruction);
+      const sentRevisions = baseRevisions.map(r => ({
+        ...r,
+        text: redact(r.text),
+        instruction: r.instruction && redact(r.instruction),
+        structured: r.structured && mapStructuredPrompt(r.structured, redact),
+      }));
+      const response: StreamRefinementResult & { structured?: StructuredPrompt } = format === 'text'
+        ? await revisePromptStream(sentOriginal, sentRevisions, sentInstruction, reviseGoal, reviseModel, reviseProvider, options, entry.attachments)
+        : {
+          ...(await revisePromptStructured(sentOriginal, sentRevisions, sentInstruction, reviseGoal, format, reviseModel, reviseProvider, options, entry.attachments)),
+          status: 'complete',
+        };
+      recordUsage('revise', response.model, entry.goal, response.usage, response.latencyMs, { prompt: chainText, output: response.text });
+      const result = revealRedactions(response, format);
+      setNotice(null);
+
+      if (!result.text) {
+        setRefined(baseRevisions[baseRevisions.length - 1].text);
+        setNotice("Revision stopped before any output was received.");
+        return;
+      }
+
+      if (result.status === 'aborted') {
+        setNotice("Revision stopped. The partial version was kept.");
+      } else if (result.status === 'partial' && result.error) {
+        setError(new LLMError(result.error.kind, `The stream was interrupted: ${result.error.message} The partial version was kept.`));
+      } else if (result.model !== reviseModel) {
+        setNotice(`Revised with ${modelName(result.model)} because the original model was unavailable.`);
+      }
+
+      const revisions = [...baseRevisions, {
+        text: result.text,
+        instruction,
+        status: result.status,
+        timestamp: Date.now(),
+        model: result.model,
+        usage: result.usage,
+        latencyMs: result.latencyMs,
+        structured: result.structured,
+      }];
+      const updated: RefinementHistory = { ...entry, refined: result.text, status: result.status, revisions };
+      setSession({ entry: updated, index: revisions.length - 1 });
+      setRefined(result.text);
+      setFollowUp('');
+      upsertHistoryEntry(updated);
+    } catch (err: any) {
+      setRefined(baseRevisions[baseRevisions.length - 1].text);
+      if (controller.signal.aborted) {
+        recordUsage('revise', reviseModel, entry.goal, undefined, undefined, { prompt: chainText, output: '' });
+        setNotice("Revision stopped before any output was received.");
+        return;
+      }
+      setNotice(null);
+      setError(toDisplayError(err));
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const moveRevision = (delta: number) => {
+    if (!session) return;
+    const revisions = revisionsOf(session.entry);
+    const index = Math.min(Math.max(session.index + delta, 0), revisions.length - 1);
+    setSession({ ...session, index });
+    setRefined(revisions[index].text);
+  };
+
+  const handleRate = (rating: ABTestRating) => {
+    if (!session) return;
+    const ratings = [...(session.entry.ratings || []).filter(r => r.timestamp !== rating.timestamp), rating];
+    const updated: RefinementHistory = { ...session.entry, ratings };
+    setSession({ ...session, entry: updated });
+    upsertHistoryEntry(updated);
+  };
+
+  const handleShare = async () => {
+    if (!session) return;
+    const entry = { ...session.entry, original: redact(session.entry.original), refined: redact(refined) };
+    try {
+      const url = await createShareUrl(entry, findGoal(goals, entry.goalId || entry.goal));
+      await navigator.clipboard.writeText(url);
+      setError(null);
+      setNotice("Share link copied to clipboard. The prompt is stored in the link itself, not on a server.");
+    } catch (err: any) {
+      setError(err.message || "Could not create a share link.");
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handlePickWinner = (picked: CompareResult) => {
+    if (!picked.text) return;
+    const result = revealRedactions({ ...picked, text: picked.text }, 'text');
+    const newEntry: RefinementHistory = {
+      id: Date.now().toString(),
+      original: restoreRedactions(result.original, redactions),
+      refined: result.text,
+      goal: result.goal.definitions[0].name,
+      goalId: result.goal.definitions[0].id,
+      settings: result.goal.settings,
+      model: result.model.id,
+      providerId: activeProvider.id,
+      attachments: result.attachments.length ? result.attachments : undefined,
+      timestamp: Date.now(),
+      status: 'complete',
+      revisions: [{
+        text: result.text,
+        status: 'complete',
+        timestamp: Date.now(),
+        model: result.model.id,
+        usage: result.usage,
+        latencyMs: result.latencyMs,
+      }]
+    };
+    upsertHistoryEntry(newEntry);
+    startSession(newEntry);
+  };
+
+  // Every run is billed, so the budget cap applies to all of them together.
+  const confirmCompareRun = (modelIds: string[]) => {
+    setError(null);
+    if (!confirmPreflight([input, ...attachments.map(attachmentText)])) return false;
+    const tokens = inputTokens?.tokens ?? estimateTokens(input + attachments.map(attachmentText).join('\n'));
+    const costs = modelIds.map(id => estimateRequestCost(tokens, id));
+    return confirmWithinBudget(sumCosts(costs));
+  };
+
+  // The pre-flight rules apply to every prompt, and the budget cap to the batch as a whole.
+  const confirmBatchStart = (prompts: string[]) => {
+    setError(null);
+    if (!confirmPreflight(prompts)) return false;
+    const costs = prompts.map(prompt =>
+      estimateRequestCost(estimateTokens(getSystemInstruction(composedGoal, prompt) + prompt), modelToUse)
+    );
+    return confirmWithinBudget(sumCosts(costs));
+  };
+
+  const handleBatchItemDone = (item: BatchItem, batchGoal: ComposedGoal) => {
+    if (item.model) recordUsage('batch', item.model, batchGoal.definitions[0].name, item.usage, item.latencyMs);
+    if (!item.refined) return;
+    const timestamp = Date.now();
+    upsertHistoryEntry({
+      id: `${timestamp}-${item.index}`,
+      original: item.prompt,
+      refined: item.refined,
+      goal: batchGoal.definitions[0].name,
+      goalId: batchGoal.definitions[0].id,
+      settings: batchGoal.settings,
+      model: item.model,
+      providerId: activeProvider.id,
+      timestamp,
+      status: 'complete',
+      revisions: [{
+        text: item.refined,
+        status: 'complete',
+        timestamp,
+        model: item.model,
+        usage: item.usage,
+        latencyMs: item.latencyMs,
+      }]
+    });
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleImportBundle = async (report: BundleImportReport, applySettings: boolean): Promise<ImportSummary> => {
+    const entries = mergeHistoryEntries(history, report.bundle.entries);
+    const importedGoals = mergeCustomGoals(customGoals, report.bundle.settings.customGoals || []);
+
+    await putHistoryEntries(entries.added);
+    setHistory(entries.merged);
+    setCustomGoals(importedGoals.merged);
+
+    const model = report.bundle.settings.selectedModel;
+    if (applySettings && model) selectModel(model);
+
+    return {
+      entriesAdded: entries.added.length,
+      entriesSkipped: entries.duplicates,
+      goalsAdded: importedGoals.added.length,
+      goalsSkipped: importedGoals.duplicates,
+    };
+  };
+
   const clearHistory = () => {
     if (confirm("Clear all prompt history?")) {
       setHistory([]);
+      clearHistoryStore().catch((e) => console.error("Failed to clear history", e));
     }
   };
 
   const restoreFromHistory = (item: RefinementHistory) => {
     setInput(item.original);
-    setRefined(item.refined);
-    setGoal(item.goal);
+    setCritique(null);
+    setAttachments(item.attachments || []);
+    startSession(item);
+    setRefinementSettings(composeGoals(goals, settingsOfEntry(item)).settings);
+    if (item.model) selectModel(item.model, item.providerId);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  // Shortcuts other than the palette itself are off while a dialog is open.
+  const isDialogOpen = isGoalManagerOpen || !!transferSelection || isUsageOpen || isProviderSettingsOpen || isKeyModalOpen || isShortcutSettingsOpen;
+  shortcutHandlerRef.current = (action) => {
+    if (action === 'palette') {
+      if (!isDialogOpen) setIsPaletteOpen(open => !open);
+      return;
+    }
+    if (isDialogOpen || isPaletteOpen) return;
+    switch (action) {
+      case 'refine':
+        if (!isLoading) handleRefine();
+        break;
+      case 'copy-result':
+        if (refined) copyToClipboard(refined);
+        break;
+      case 'cycle-goal':
+        cycleGoal();
+        break;
+      case 'cycle-model':
+        cycleModel();
+        break;
+      case 'open-keys':
+        handleOpenKeySelector();
+        break;
+      case 'clear-input':
+        clearInput();
+        break;
+    }
+  };
+
+  const paletteCommands = (): PaletteCommand[] => {
+    const action = (id: string, label: string, run: () => void, shortcut?: ShortcutActionId): PaletteCommand =>
+      ({ id, group: 'Actions', label, run, shortcut: shortcut && shortcutBindings[shortcut] });
+    return [
+      ...(input.trim() && !isLoading ? [action('refine', isOnline ? 'Optimize prompt' : 'Queue prompt for when online', handleRefine, 'refine')] : []),
+      ...(input.trim() && !isLoading && isOnline ? [action('analyze', 'Analyze prompt', handleAnalyze)] : []),
+      ...(refined ? [action('copy-result', 'Copy refined prompt', () => copyToClipboard(refined), 'copy-result')] : []),
+      action('clear-input', 'Clear raw prompt', clearInput, 'clear-input'),
+      action('cycle-goal', 'Next refinement goal', cycleGoal, 'cycle-goal'),
+      action('cycle-model', 'Next model', cycleModel, 'cycle-model'),
+      action('open-keys', 'API keys', handleOpenKeySelector, 'open-keys'),
+      action('providers', 'Providers & models', () => setIsProviderSettingsOpen(true)),
+      action('goals', 'Manage custom goals', () => setIsGoalManagerOpen(true)),
+      action('compare', isCompareMode ? 'Close compare mode' : 'Compare models', () => setIsCompareMode(!isCompareMode)),
+      action('batch', isBatchMode ? 'Close batch refine' : 'Batch refine', () => setIsBatchMode(!isBatchMode)),
+      action('usage', 'Usage & budget', () => setIsUsageOpen(true)),
+      action('transfer', 'Import or export library', () => setTransferSelection([])),
+      action('shortcuts', 'Keyboard shortcuts', () => setIsShortcutSettingsOpen(true)),
+      ...goals.map((g): PaletteCommand => ({
+        id: `goal-${g.id}`,
+        group: 'Goals',
+        label: g.name,
+        detail: 'Goal',
+        isActive: composedGoal.settings.goals.length === 1 && g.id === goal.id,
+        run: () => selectGoal(g.id),
+      })),
+      ...providers.flatMap(p => p.models.map((m): PaletteCommand => ({
+        id: `model-${p.id}-${m.id}`,
+        group: 'Models',
+        label: m.name || m.id,
+        detail: p.name,
+        isActive: p.id === activeProvider.id && m.id === selectedModel,
+        run: () => selectModel(m.id, p.id),
+      }))),
+      ...history.map((entry): PaletteCommand => ({
+        id: `history-${entry.id}`,
+        group: 'History',
+        label: entry.original.split('\n')[0].slice(0, 80),
+        detail: `${entry.goal} · ${new Date(entry.timestamp).toLocaleDateString()}`,
+        run: () => restoreFromHistory(entry),
+      })),
+    ];
+  };
+
   return (
     <div className="min-h-screen pb-20 selection:bg-red-500/20">
-      {/* API Key Modal */}
+      {isGoalManagerOpen && (
+        <GoalManager
+          customGoals={customGoals}
+          onSave={handleSaveGoal}
+          onDelete={handleDeleteGoal}
+          onClose={() => setIsGoalManagerOpen(false)}
+        />
+      )}
+
+      {transferSelection && (
+        <TransferDialog
+          history={history}
+          selected={transferSelection}
+          settings={{ selectedModel, customGoals }}
+          onImport={handleImportBundle}
+          onClose={() => setTransferSelection(null)}
+        />
+      )}
+
+      {isUsageOpen && (
+        <UsageDashboard
+          records={usageRecords}
+          models={allModels}
+          budget={budget}
+          onSaveBudget={setBudget}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
+
+      {isProviderSettingsOpen && (
+        <ProviderSettings
+          providers={providers}
+          activeProviderId={activeProvider.id}
+          onSave={handleSaveProviders}
+          onClose={() => setIsProviderSettingsOpen(false)}
+        />
+      )}
+
+      {isPaletteOpen && (
+        <CommandPalette commands={paletteCommands()} onClose={() => setIsPaletteOpen(false)} />
+      )}
+
+      {isShortcutSettingsOpen && (
+        <ShortcutSettings
+          bindings={shortcutBindings}
+          onSave={(bindings) => {
+            setShortcutBindings(bindings);
+            setIsShortcutSettingsOpen(false);
+          }}
+          onClose={() => setIsShortcutSettingsOpen(false)}
+        />
+      )}
+
       {isKeyModalOpen && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 transition-all duration-300">
-          <div className="bg-[#0a0a0a] border border-white/10 rounded-2xl w-full max-w-md p-6 shadow-2xl relative animate-in fade-in zoom-in duration-300">
-             {/* Only show close button if we already have a key (cancellation allowed) */}
-            <button 
-              onClick={() => setIsKeyModalOpen(false)}
-              className="absolute top-4 right-4 text-gray-500 hover:text-white"
-            >
-              <Trash2 className="w-5 h-5 rotate-45" /> {/* Using Trash2 as X icon/Close */}
-            </button>
-            
-            <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
-              <Key className="w-5 h-5 text-red-500" />
-              Configure API Key
-            </h2>
-            <p className="text-gray-400 text-sm mb-6">
-              Enter your Gemini API key to unlock all models and higher rate limits. 
-              Your key is stored locally in your browser.
-            </p>
-
-            <form 
-              onSubmit={(e) => {
-                e.preventDefault();
-                const formData = new FormData(e.currentTarget);
-                handleSaveKey(formData.get('apiKey') as string);
-              }}
-              className="space-y-4"
-            >
-              <div>
-                <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
-                  Gemini API Key
-                </label>
-                <input 
-                  name="apiKey"
-                  defaultValue={customApiKey}
-                  type="password"
-                  placeholder="AIzaSy..."
-                  className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white outline-none focus:border-red-500/50 transition-colors font-mono text-sm"
-                  autoFocus
-                />
-              </div>
-              
-              <div className="flex gap-3 pt-2">
-                <button
-                  type="button"
-                  onClick={() => {
-                    handleSaveKey('');
-                  }}
-                  className="px-4 py-2 rounded-xl text-xs font-bold text-red-400 hover:bg-red-500/10 transition-colors"
-                >
-                  Clear Key
-                </button>
-                <button
-                  type="submit"
-                  className="flex-1 bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 text-white font-bold py-2 rounded-xl text-sm hover:shadow-lg hover:shadow-red-500/20 transition-all"
-                >
-                  Save Configuration
-                </button>
-              </div>
-            </form>
-            
-            <div className="mt-6 pt-4 border-t border-white/5 text-center">
-              <a 
-                href="https://aistudio.google.com/app/apikey" 
-                target="_blank" 
-                rel="noreferrer"
-                className="text-xs text-blue-400 hover:text-blue-300 underline"
-              >
-                Get a free Gemini API key here
-              </a>
-            </div>
-          </div>
-        </div>
+        <KeyVaultDialog
+          vault={vault}
+          unlocked={unlockedVault}
+          providers={providers}
+          onChange={handleVaultChange}
+          onActivate={handleActivateProfile}
+          onLock={() => setUnlockedVault(null)}
+          onClose={() => setIsKeyModalOpen(false)}
+        />
       )}
 
       <nav className="sticky top-0 z-50 glass border-b border-white/10 px-6 py-4 mb-8">
@@ -211,19 +1161,57 @@ const App: React.FC = () => {
             </h1>
           </div>
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setIsPaletteOpen(true)}
+              className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-semibold transition-all border-white/10 bg-white/5 text-gray-400 hover:bg-white/10 hover:border-white/20"
+              title="Command palette"
+            >
+              <Search className="w-3 h-3" />
+              {shortcutBindings.palette && <kbd className="mono text-[10px]">{formatBinding(shortcutBindings.palette)}</kbd>}
+            </button>
+            <button
+              onClick={() => setIsCompareMode(!isCompareMode)}
+              className={`hidden sm:flex items-center gap-2 px-4 py-1.5 rounded-full border text-xs font-semibold transition-all ${
+                isCompareMode
+                  ? 'border-purple-500/30 bg-purple-500/10 text-purple-300'
+                  : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10 hover:border-white/20'
+              }`}
+            >
+              <Columns3 className="w-3 h-3" />
+              Compare
+            </button>
+            <button
+              onClick={() => setIsBatchMode(!isBatchMode)}
+              className={`hidden sm:flex items-center gap-2 px-4 py-1.5 rounded-full border text-xs font-semibold transition-all ${
+                isBatchMode
+                  ? 'border-purple-500/30 bg-purple-500/10 text-purple-300'
+                  : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10 hover:border-white/20'
+              }`}
+            >
+              <Layers className="w-3 h-3" />
+              Batch
+            </button>
+            <button
+              onClick={() => setIsUsageOpen(true)}
+              className="hidden sm:flex items-center gap-2 px-4 py-1.5 rounded-full border text-xs font-semibold transition-all border-white/10 bg-white/5 text-gray-400 hover:bg-white/10 hover:border-white/20"
+            >
+              <BarChart3 className="w-3 h-3" />
+              Usage
+            </button>
             <button
               onClick={handleOpenKeySelector}
               className={`hidden sm:flex items-center gap-2 px-4 py-1.5 rounded-full border text-xs font-semibold transition-all ${
-                hasCustomKey 
+                activeProfile 
                   ? 'border-red-500/30 bg-red-500/10 text-red-400' 
                   : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10 hover:border-white/20'
               }`}
             >
-              <Key className="w-3 h-3" />
-              {hasCustomKey ? 'Change Key' : 'Set API Key'}
+              {vault?.profiles.length && !unlockedVault ? <Lock className="w-3 h-3" /> : <Key className="w-3 h-3" />}
+              {activeProfile ? activeProfile.name : vault?.profiles.length ? (unlockedVault ? 'Choose Key' : 'Unlock Keys') : 'Set API Key'}
             </button>
             <span className="hidden sm:inline bg-white/5 px-3 py-1.5 rounded-full border border-white/5 text-xs font-medium text-gray-400">
-              {AVAILABLE_MODELS.find(m => m.id === selectedModel)?.name}
+              {activeProvider.kind === 'gemini' ? '' : `${activeProvider.name} · `}
+              {models.find(m => m.id === selectedModel)?.name}
             </span>
           </div>
         </div>
@@ -239,7 +1227,7 @@ const App: React.FC = () => {
               </div>
               <div className="flex items-center gap-2">
                  <button 
-                  onClick={() => setInput('')}
+                  onClick={clearInput}
                   className="text-gray-500 hover:text-white transition-colors p-1"
                   title="Clear input"
                 >
@@ -248,20 +1236,86 @@ const App: React.FC = () => {
               </div>
             </div>
             
-            <textarea
+            <HighlightedTextarea
               value={input}
-              onChange={(e) => setInput(e.target.value)}
+              onChange={setInput}
+              highlights={[
+                ...lintFindings.map(f => ({
+                  start: f.start,
+                  end: f.end,
+                  className: f.action === 'block' ? 'bg-red-500/30' : 'bg-yellow-500/25',
+                })),
+                ...(critique?.annotations || []).flatMap(a => {
+                  const range = locateQuote(input, a.quote, a.start);
+                  const category = CRITIQUE_CATEGORIES.find(c => c.id === a.category)!;
+                  return range ? [{ ...range, className: a.id === activeAnnotationId ? `${category.className} ring-1 ring-white/60` : category.className }] : [];
+                }),
+              ]}
+              textareaRef={inputRef}
               placeholder="Describe your intent... (e.g. 'write a python script for data cleaning')"
-              className="w-full h-48 bg-transparent text-gray-100 placeholder:text-gray-600 resize-none outline-none text-lg leading-relaxed mono"
+              className="w-full h-48 text-lg leading-relaxed mono"
             />
+            {inputTokens && (
+              <div className="text-[10px] text-gray-500 font-bold uppercase tracking-wider text-right">
+                {inputTokens.estimated ? '~' : ''}{inputTokens.tokens.toLocaleString()} input tokens
+                {estimatedCost !== undefined && ` · est. ${formatCost(estimatedCost)} with ${modelName(modelToUse)}`}
+              </div>
+            )}
+            {input.trim() && (
+              <LintPanel
+                findings={lintFindings}
+                settings={lintSettings}
+                onChangeSettings={setLintSettings}
+                onRedact={handleRedact}
+                redactedCount={redactedCount}
+              />
+            )}
+            {critique && (
+              <CritiquePanel
+                critique={critique}
+                text={input}
+                activeId={activeAnnotationId}
+                modelName={modelName}
+                onSelect={selectAnnotation}
+                onApply={applyAnnotation}
+                onDismiss={dismissAnnotation}
+                onClose={() => setCritique(null)}
+              />
+            )}
+            <AttachmentsPanel attachments={attachments} onChange={setAttachments} />
 
             <div className="mt-8 space-y-4">
               <div className="flex items-center gap-2 text-gray-500 text-xs font-bold uppercase tracking-widest">
                 <Cpu className="w-3 h-3 text-purple-400" />
                 Model Engine
+                <button
+                  onClick={() => setIsProviderSettingsOpen(true)}
+                  className="ml-auto flex items-center gap-1 text-gray-500 hover:text-white transition-colors normal-case tracking-normal font-semibold"
+                  title="Manage providers and models"
+                >
+                  <Server className="w-3 h-3" />
+                  Providers
+                </button>
               </div>
+              {providers.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  {providers.map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => switchProvider(p)}
+                      className={`px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 border ${
+                        activeProvider.id === p.id
+                          ? 'bg-purple-600/20 border-purple-500/50 text-purple-200'
+                          : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+                      }`}
+                    >
+                      {p.name}
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="grid grid-cols-3 gap-3">
-                {AVAILABLE_MODELS.map((m) => (
+                {models.map((m) => (
                   <button
                     key={m.id}
                     onClick={() => setSelectedModel(m.id)}
@@ -285,103 +1339,166 @@ const App: React.FC = () => {
                 <Settings2 className="w-3 h-3 text-red-400" />
                 Refinement Goal
               </div>
+              <GoalComposer
+                goals={goals}
+                settings={composedGoal.settings}
+                onChange={setRefinementSettings}
+                onManageGoals={() => setIsGoalManagerOpen(true)}
+              />
+            </div>
+
+            <div className="mt-6">
+              <div className="flex items-center gap-2 mb-3 text-gray-500 text-xs font-bold uppercase tracking-widest">
+                <LayoutList className="w-3 h-3 text-blue-400" />
+                Output Format
+              </div>
               <div className="flex flex-wrap gap-2">
-                {Object.values(RefinementGoal).map((g) => (
+                {OUTPUT_FORMATS.map((f) => (
                   <button
-                    key={g}
-                    onClick={() => setGoal(g)}
+                    key={f.id}
+                    onClick={() => setOutputFormat(f.id)}
+                    title={f.desc}
                     className={`px-4 py-2 rounded-full text-xs font-semibold transition-all duration-300 border ${
-                      goal === g 
-                        ? 'bg-gradient-to-r from-purple-600/30 to-red-600/30 border-red-500/50 text-red-200 shadow-lg shadow-red-500/10' 
+                      outputFormat === f.id
+                        ? 'bg-blue-600/20 border-blue-500/50 text-blue-200'
                         : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
                     }`}
                   >
-                    {g}
+                    {f.name}
                   </button>
                 ))}
               </div>
             </div>
 
-            <button
-              onClick={handleRefine}
-              disabled={isLoading || !input.trim()}
-              className={`mt-8 w-full py-4 rounded-2xl font-bold flex items-center justify-center gap-2 transition-all active:scale-[0.98] ${
-                isLoading 
-                  ? 'bg-gray-800 text-gray-500 cursor-not-allowed' 
-                  : 'bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 hover:shadow-xl hover:shadow-red-500/40 text-white'
-              }`}
-            >
-              {isLoading ? (
-                <>
+            {isLoading ? (
+              <div className="mt-8 flex gap-3">
+                <div className="flex-grow py-4 rounded-2xl font-bold flex items-center justify-center gap-2 bg-gray-800 text-gray-500">
                   <div className="w-5 h-5 border-2 border-gray-500 border-t-white rounded-full animate-spin" />
                   Processing...
-                </>
-              ) : (
-                <>
-                  <Zap className="w-5 h-5 fill-current" />
-                  Optimize Prompt
-                </>
-              )}
-            </button>
-
-            {error && (
-              <div className="mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm flex gap-3 items-center">
-                <div className="bg-red-500/20 p-1.5 rounded-lg font-bold">!</div>
-                <div className="flex-grow">{error}</div>
-                {error.includes("Requested entity") && (
-                   <button onClick={handleOpenKeySelector} className="text-xs underline font-bold hover:text-white">RESELECT KEY</button>
-                )}
+                </div>
+                <button
+                  onClick={handleStop}
+                  className="px-6 py-4 rounded-2xl font-bold flex items-center justify-center gap-2 bg-red-500/10 border border-red-500/30 text-red-400 hover:bg-red-500/20 transition-all active:scale-[0.98]"
+                >
+                  <Square className="w-4 h-4 fill-current" />
+                  Stop
+                </button>
               </div>
-            )}
-          </section>
-
-          <section className="glass rounded-3xl p-6">
-            <div className="flex items-center justify-between mb-6">
-              <h3 className="flex items-center gap-2 font-bold text-gray-200 uppercase tracking-widest text-xs">
-                <History className="w-4 h-4 text-red-500" />
-                History
-              </h3>
-              {history.length > 0 && (
-                <button 
-                  onClick={clearHistory}
-                  className="text-xs text-gray-500 hover:text-red-400 flex items-center gap-1 transition-colors"
+            ) : (
+              <div className="mt-8 flex gap-3">
+                <button
+                  onClick={handleRefine}
+                  disabled={!input.trim()}
+                  className="flex-grow py-4 rounded-2xl font-bold flex items-center justify-center gap-2 transition-all active:scale-[0.98] bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 hover:shadow-xl hover:shadow-red-500/40 text-white disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <Trash2 className="w-3 h-3" />
-                  Clear
+                  {isOnline ? <Zap className="w-5 h-5 fill-current" /> : <CloudOff className="w-5 h-5" />}
+                  {isOnline ? 'Optimize Prompt' : 'Queue for When Online'}
                 </button>
-              )}
-            </div>
+                <button
+                  onClick={handleAnalyze}
+                  disabled={!input.trim() || !isOnline}
+                  className="px-6 py-4 rounded-2xl font-bold flex items-center justify-center gap-2 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Critique the prompt as written instead of rewriting it"
+                >
+                  <Microscope className="w-5 h-5" />
+                  Analyze
+                </button>
+              </div>
+            )}
 
-            {history.length === 0 ? (
-              <div className="text-center py-10 text-gray-600 border-2 border-dashed border-white/5 rounded-2xl">
-                <p className="text-xs">No recent optimizations found.</p>
+            {plainTextKeysPending && (
+              <div className="mt-4 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-xl text-yellow-400 text-sm flex gap-3 items-center">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <div className="flex-grow">
+                  API keys saved by an earlier version are still stored unencrypted in this browser. {vault ? 'Unlock' : 'Set up'} your key profiles to encrypt them.
+                </div>
+                <button onClick={handleOpenKeySelector} className="shrink-0 text-xs font-bold hover:text-yellow-300">
+                  {vault ? 'UNLOCK' : 'SET UP'}
+                </button>
               </div>
-            ) : (
-              <div className="space-y-3">
-                {history.map((item) => (
-                  <button
-                    key={item.id}
-                    onClick={() => restoreFromHistory(item)}
-                    className="w-full text-left p-4 rounded-xl bg-white/5 border border-white/10 hover:border-red-500/40 hover:bg-white/[0.08] transition-all group"
-                  >
-                    <div className="flex justify-between items-start mb-2">
-                      <span className="text-[9px] px-2 py-0.5 rounded-md bg-red-500/10 text-red-400 font-bold uppercase tracking-wider">
-                        {item.goal}
-                      </span>
-                      <span className="text-[9px] text-gray-600">
-                        {new Date(item.timestamp).toLocaleTimeString()}
-                      </span>
-                    </div>
-                    <p className="text-sm text-gray-400 line-clamp-1 group-hover:text-gray-300">
-                      {item.original}
-                    </p>
-                  </button>
-                ))}
+            )}
+
+            {notice && (
+              <div className="mt-4 p-4 bg-white/5 border border-white/10 rounded-xl text-gray-400 text-sm flex gap-3 items-center">
+                <div className="bg-white/10 p-1.5 rounded-lg font-bold">i</div>
+                <div className="flex-grow">{notice}</div>
               </div>
             )}
+
+            {error && (
+              <ErrorNotice
+                error={error}
+                onUpdateKey={activeProvider.kind === 'gemini' ? handleOpenKeySelector : () => setIsProviderSettingsOpen(true)}
+                onEditModels={() => setIsProviderSettingsOpen(true)}
+                onRetry={() => (lastRequestRef.current === 'revise' ? handleRevise() : lastRequestRef.current === 'analyze' ? handleAnalyze() : handleRefine())}
+              />
+            )}
+
+            {outbox.length > 0 && (
+              <OutboxPanel
+                items={outbox}
+                goals={goals}
+                isOnline={isOnline}
+                isWaitingForKeys={isWaitingForKeys}
+                sendingId={sendingOutboxId}
+                modelName={modelName}
+                onCancel={cancelOutboxItem}
+                onRetry={retryOutboxItem}
+              />
+            )}
           </section>
+
+          <HistoryLibrary
+            history={history}
+            isLoaded={isHistoryLoaded}
+            goals={goals}
+            models={allModels}
+            onRestore={restoreFromHistory}
+            onUpdate={upsertHistoryEntry}
+            onDelete={deleteEntry}
+            onClear={clearHistory}
+            onOpenTransfer={setTransferSelection}
+          />
         </div>
 
+        {isCompareMode && (
+          <div className="lg:col-span-12 lg:order-first">
+            <ComparePanel
+              input={input}
+              attachments={attachments}
+              models={models}
+              goals={goals}
+              goal={composedGoal}
+              provider={llm}
+              onConfirmRun={confirmCompareRun}
+              onUsage={(run, result) =>
+                recordUsage('compare', result?.model ?? run.model.id, run.goal.definitions[0].name, result?.usage, result?.latencyMs, {
+                  prompt: getSystemInstruction(run.goal, run.original, 'text', run.attachments) + run.original,
+                  output: result?.text ?? '',
+                })
+              }
+              onPickWinner={handlePickWinner}
+              onUpdateKey={handleOpenKeySelector}
+              onEditModels={() => setIsProviderSettingsOpen(true)}
+            />
+          </div>
+        )}
+
+        {isBatchMode && (
+          <div className="lg:col-span-12 lg:order-first">
+            <BatchPanel
+              goal={composedGoal}
+              model={modelToUse}
+              modelName={modelName}
+              provider={llm}
+              providerName={activeProvider.name}
+              fallbackModels={activeProvider.fallbackModels}
+              onConfirmStart={confirmBatchStart}
+              onItemDone={handleBatchItemDone}
+            />
+          </div>
+        )}
+
         <div className="lg:col-span-5 space-y-6">
           <section className={`glass rounded-3xl p-6 min-h-[400px] flex flex-col transition-all duration-500 border-2 ${refined ? 'border-red-500/20' : 'border-white/5'}`}>
             <div className="flex items-center justify-between mb-4">
@@ -389,32 +1506,95 @@ const App: React.FC = () => {
                 <Sparkles className="w-4 h-4 text-red-500" />
                 REFINED
               </div>
-              {refined && (
-                <button
-                  onClick={() => copyToClipboard(refined)}
-                  className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
-                    copied 
-                      ? 'bg-green-500/20 text-green-400' 
-                      : 'bg-white/10 text-white hover:bg-white/20'
-                  }`}
-                >
-                  {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
-                  {copied ? 'COPIED' : 'COPY'}
-                </button>
+              {refined && !isLoading && (
+                <div className="flex items-center gap-1">
+                  {sessionRevisions.length > 1 && (
+                    <>
+                      <button
+                        onClick={() => moveRevision(-1)}
+                        disabled={session!.index === 0}
+                        className="text-gray-500 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500 transition-colors p-1"
+                        title="Undo revision"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                      </button>
+                      <span className="text-[10px] text-gray-500 font-bold tabular-nums">
+                        v{session!.index + 1}/{sessionRevisions.length}
+                      </span>
+                      <button
+                        onClick={() => moveRevision(1)}
+                        disabled={session!.index === sessionRevisions.length - 1}
+                        className="text-gray-500 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500 transition-colors p-1"
+                        title="Redo revision"
+                      >
+                        <Redo2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setShowDiff(!showDiff)}
+                        disabled={session!.index === 0}
+                        className={`p-1 mr-1 transition-colors disabled:opacity-30 ${showDiff ? 'text-purple-400' : 'text-gray-500 hover:text-white'}`}
+                        title="Show changes from the previous version"
+                      >
+                        <GitCompare className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  {activeRevision?.structured && (
+                    <button
+                      onClick={() => setShowRawOutput(!showRawOutput)}
+                      className={`p-1 mr-1 transition-colors ${showRawOutput ? 'text-gray-500 hover:text-white' : 'text-blue-400'}`}
+                      title={showRawOutput ? 'Show sections' : `Show as ${OUTPUT_FORMATS.find(f => f.id === sessionFormat)?.name}`}
+                    >
+                      <LayoutList className="w-4 h-4" />
+                    </button>
+                  )}
+                  {session && (
+                    <button
+                      onClick={handleShare}
+                      className="text-gray-500 hover:text-white transition-colors p-1 mr-1"
+                      title="Copy share link"
+                    >
+                      <Share2 className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => copyToClipboard(refined)}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                      copied 
+                        ? 'bg-green-500/20 text-green-400' 
+                        : 'bg-white/10 text-white hover:bg-white/20'
+                    }`}
+                  >
+                    {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                    {copied ? 'COPIED' : 'COPY'}
+                  </button>
+                </div>
               )}
             </div>
 
+            {activeRevision?.instruction && !isLoading && (
+              <div className="mb-4 px-3 py-2 rounded-xl bg-purple-500/10 border border-purple-500/20 text-xs text-purple-300">
+                <span className="font-bold uppercase tracking-wider text-[10px] mr-2">Follow-up</span>
+                {activeRevision.instruction}
+              </div>
+            )}
+
             <div className="flex-grow">
-              {isLoading ? (
+              {isLoading && !refined ? (
                 <div className="space-y-4">
                   <div className="h-4 w-3/4 rounded-full shimmer bg-white/5" />
                   <div className="h-4 w-full rounded-full shimmer bg-white/5" />
                   <div className="h-4 w-5/6 rounded-full shimmer bg-white/5" />
                   <div className="h-4 w-2/3 rounded-full shimmer bg-white/5" />
                 </div>
+              ) : showDiff && previousRevision && !isLoading ? (
+                <RevisionDiff before={previousRevision.text} after={refined} />
+              ) : activeRevision?.structured && !showRawOutput && !isLoading ? (
+                <PromptSections prompt={activeRevision.structured} format={sessionFormat} />
               ) : refined ? (
                 <div className="mono text-gray-200 text-sm leading-relaxed whitespace-pre-wrap break-words">
                   {refined}
+                  {isLoading && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-red-400 animate-pulse" />}
                 </div>
               ) : (
                 <div className="h-full flex flex-col items-center justify-center text-center px-6">
@@ -427,24 +1607,90 @@ const App: React.FC = () => {
               )}
             </div>
 
-            {refined && (
+            {activeRevision?.usage && !isLoading && (
+              <div className="mt-4 text-[10px] text-gray-500 font-bold uppercase tracking-wider">
+                {activeRevision.usage.promptTokens.toLocaleString()} in · {activeRevision.usage.candidatesTokens.toLocaleString()} out
+                {activeRevision.usage.thoughtsTokens > 0 && ` · ${activeRevision.usage.thoughtsTokens.toLocaleString()} thinking`}
+                {activeRevision.latencyMs !== undefined && ` · ${(activeRevision.latencyMs / 1000).toFixed(1)}s`}
+                {activeRevisionCost !== undefined && ` · ${formatCost(activeRevisionCost)}`}
+              </div>
+            )}
+
+            {session && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleRevise();
+                }}
+                className="mt-6 flex gap-2"
+              >
+                <input
+                  value={followUp}
+                  onChange={(e) => setFollowUp(e.target.value)}
+                  disabled={isLoading}
+                  placeholder="Follow up, e.g. 'make it shorter'"
+                  className="flex-grow bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-sm text-white placeholder:text-gray-600 outline-none focus:border-red-500/50 transition-colors disabled:opacity-50"
+                />
+                {isLoading ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="px-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 hover:bg-red-500/20 transition-all"
+                    title="Stop"
+                  >
+                    <Square className="w-4 h-4 fill-current" />
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!followUp.trim()}
+                    className="px-3 rounded-xl bg-white/10 text-white hover:bg-white/20 transition-all disabled:opacity-30"
+                    title="Revise"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                )}
+              </form>
+            )}
+
+            {refined && !isLoading && (
               <div className="mt-8 pt-6 border-t border-white/10">
-                <div className="flex items-center gap-4">
-                  <div className="flex -space-x-2">
-                    {[1, 2, 3].map(i => (
-                      <div key={i} className="w-6 h-6 rounded-full bg-gradient-to-br from-blue-500/20 to-red-500/20 border border-white/10 flex items-center justify-center text-[10px] text-gray-400">
-                        {i}
-                      </div>
-                    ))}
-                  </div>
-                  <p className="text-[10px] text-gray-600 leading-tight uppercase tracking-wider font-bold">
-                    Advanced Structure Verified
-                  </p>
-                </div>
+                <Scorecard
+                  key={refined}
+                  original={redact(session ? session.entry.original : input)}
+                  refined={redact(refined)}
+                  modelId={selectedModel}
+                  provider={llm}
+                  onConfirmRun={(original, sentRefined) => {
+                    setError(null);
+                    if (!confirmPreflight([original, sentRefined])) return false;
+                    return confirmWithinBudget(estimateRequestCost(estimateTokens(original + sentRefined), selectedModel));
+                  }}
+                  onScored={(scorecard) => recordUsage('score', scorecard.model, session?.entry.goal || goal.name, scorecard.usage)}
+                >
+                  {session && (
+                    <button
+                      onClick={() => setIsTryItOpen(!isTryItOpen)}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                        isTryItOpen ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-white hover:bg-white/20'
+                      }`}
+                    >
+                      <FlaskConical className="w-3 h-3" />
+                      TRY IT
+                    </button>
+                  )}
+                </Scorecard>
               </div>
             )}
           </section>
 
+          {!isLoading && (
+            <TemplatePanel
+              original={session ? session.entry.original : input}
+              template={refined || input}
+            />
+          )}
+
           <section className="bg-gradient-to-br from-blue-900/10 via-purple-900/10 to-red-900/10 rounded-3xl p-6 border border-white/5 shadow-inner">
             <h4 className="text-xs font-bold text-gray-300 mb-4 flex items-center gap-2 uppercase tracking-widest">
               <Zap className="w-4 h-4 text-red-500" />
@@ -462,6 +1708,32 @@ const App: React.FC = () => {
             </div>
           </section>
         </div>
+
+        {isTryItOpen && session && refined && (
+          <div className="lg:col-span-12">
+            <TryItPanel
+              key={session.entry.id}
+              entry={{ ...session.entry, original: redact(session.entry.original) }}
+              refined={redact(refined)}
+              models={models}
+              defaultModelId={selectedModel}
+              provider={llm}
+              history={history}
+              onConfirmRun={(modelId, prompts) => {
+                setError(null);
+                if (!confirmPreflight(prompts)) return false;
+                const costs = prompts.map(prompt => estimateRequestCost(estimateTokens(prompt), modelId));
+                return confirmWithinBudget(sumCosts(costs));
+              }}
+              onUsage={(modelId, prompt, result) =>
+                recordUsage('try-it', result?.model ?? modelId, session.entry.goal, result?.usage, result?.latencyMs, { prompt, output: result?.text ?? '' })
+              }
+              onRate={handleRate}
+              onUpdateKey={handleOpenKeySelector}
+              onEditModels={() => setIsProviderSettingsOpen(true)}
+            />
+          </div>
+        )}
       </main>
 
       <footer className="max-w-5xl mx-auto px-6 mt-16 text-center border-t border-white/5 pt-8">
@@ -0,0 +1,311 @@
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { GoalDefinition, OutputFormat, RefinementGoal, RefinementSettings, StructuredPrompt, TokenUsage } from '../types.ts';
+import {
+  ComposedGoal,
+  GOAL_WEIGHTS,
+  REWRITE_INTENSITIES,
+  TARGET_LENGTHS,
+  composeGoals,
+  compositionName,
+  createRefinementSettings,
+  mergeGoals
+} from '../services/goalRegistry.ts';
+import { RefinementResult, getSystemInstruction, refinePromptDetailed, refinePromptStructured } from '../services/geminiService.ts';
+import { OUTPUT_FORMATS } from '../services/outputFormats.ts';
+import { createProvider } from '../services/providerCatalog.ts';
+import { parseBundle } from '../services/bundleService.ts';
+import { LLMError } from '../services/providers/llmErrors.ts';
+import { RetryNotice } from '../services/retryPolicy.ts';
+import { DEFAULT_LINT_SETTINGS, lintPrompt, summarizeFindings } from '../services/preflightLint.ts';
+import { globBase, globToRegExp } from '../utils/glob.ts';
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+const DEFAULT_CONCURRENCY = 2;
+
+const USAGE = `Usage: promptperfect [options] [file...]
+       promptperfect --batch "<glob>" [options]
+
+Refines a prompt read from FILE, or from stdin when no file is given, and
+prints the refined prompt to stdout.
+
+Options:
+  -g, --goal <goals>       Goal id, name or short name (general, technical, creative,
+                           concise, coding, structured). Combine several in priority
+                           order with commas, each optionally weighted, e.g.
+                           "coding:high,structured". Env: PROMPTPERFECT_GOAL
+      --intensity <level>  ${REWRITE_INTENSITIES.map(i => i.id).join(', ')} (default balanced)
+      --length <target>    ${TARGET_LENGTHS.map(l => l.id).join(', ')} (default auto)
+      --language <name>    Write the refined prompt in this language
+  -m, --model <id>         Model id (default ${DEFAULT_MODEL}). Env: PROMPTPERFECT_MODEL
+  -k, --key <key>          API key. Env: PROMPTPERFECT_API_KEY or GEMINI_API_KEY
+      --base-url <url>     Send requests to an OpenAI-compatible server instead of
+                           Gemini, e.g. http://localhost:11434/v1. Env: PROMPTPERFECT_BASE_URL
+  -f, --format <format>    Output format: ${OUTPUT_FORMATS.map(f => f.id).join(', ')} (default text)
+      --fallback <ids>     Comma-separated models to try when the model is unavailable
+      --goals <bundle>     Load custom goals from an exported PromptPerfect bundle
+  -b, --batch <glob>       Refine every file matching the glob (quote it; supports **)
+  -i, --in-place           Overwrite each input file with its refined prompt
+      --json               Print JSON results (always on in batch mode)
+  -c, --concurrency <n>    Parallel requests for several files (default ${DEFAULT_CONCURRENCY})
+      --allow-sensitive    Send prompts even when the pre-flight check finds secrets or
+                           card numbers (other findings only print a warning)
+      --print-system       Print the system instruction for the goal and exit
+  -v, --verbose            Also print the underlying service errors
+  -h, --help               Show this help
+`;
+
+/**
+ * Outcome for one input, as printed with --json.
+ */
+interface CliResult {
+  file: string | null;
+  goal: string;
+  model?: string;
+  refined?: string;
+  /** The system/user parts, for formats other than text. */
+  structured?: StructuredPrompt;
+  usage?: TokenUsage;
+  latencyMs?: number;
+  error?: { kind: string; message: string };
+}
+
+class UsageError extends Error {}
+class PreflightError extends Error {}
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+/**
+ * Files matching a glob, relative to the working directory, in a stable order.
+ */
+const expandGlob = async (pattern: string) => {
+  const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  const matcher = globToRegExp(normalized);
+  const base = globBase(normalized);
+  const entries = await readdir(base, { recursive: true, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => path.join(entry.parentPath ?? entry.path, entry.name).split(path.sep).join('/'))
+    .filter(file => !file.split('/').includes('node_modules') && matcher.test(file))
+    .sort();
+};
+
+// Short, flag-friendly names for the built-in goals, e.g. "coding".
+const GOAL_ALIASES: Record<string, string> = Object.fromEntries(
+  Object.entries(RefinementGoal).map(([key, value]) => [key.toLowerCase(), value])
+);
+
+const resolveCliGoal = (value: string, goals: GoalDefinition[]): GoalDefinition => {
+  const wanted = GOAL_ALIASES[value.toLowerCase()] || value;
+  const match = goals.find(g => g.id === wanted || g.name.toLowerCase() === wanted.toLowerCase());
+  if (!match) {
+    throw new UsageError(`Unknown goal "${value}". Available: ${goals.map(g => g.name).join(', ')}.`);
+  }
+  return match;
+};
+
+/**
+ * Reads "goal[:weight],goal[:weight]..." plus the refinement controls into a composition.
+ */
+const resolveCliComposition = (
+  value: string | undefined,
+  controls: { intensity?: string; length?: string; language?: string },
+  goals: GoalDefinition[]
+): ComposedGoal => {
+  const settings: RefinementSettings = createRefinementSettings(goals[0].id);
+  if (value) {
+    settings.goals = value.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+      // Goal names may contain colons, so only a known weight suffix is split off.
+      const weightMatch = part.match(/:(low|normal|high)$/i);
+      const weight = GOAL_WEIGHTS.find(w => w.name.toLowerCase() === weightMatch?.[1].toLowerCase());
+      const goal = resolveCliGoal(weightMatch ? part.slice(0, weightMatch.index) : part, goals);
+      return { goalId: goal.id, weight: weight?.value ?? settings.goals[0].weight };
+    });
+  }
+  if (controls.intensity) {
+    const intensity = REWRITE_INTENSITIES.find(i => i.id === controls.intensity);
+    if (!intensity) throw new UsageError(`Unknown intensity "${controls.intensity}". Available: ${REWRITE_INTENSITIES.map(i => i.id).join(', ')}.`);
+    settings.intensity = intensity.id;
+  }
+  if (controls.length) {
+    const length = TARGET_LENGTHS.find(l => l.id === controls.length);
+    if (!length) throw new UsageError(`Unknown length "${controls.length}". Available: ${TARGET_LENGTHS.map(l => l.id).join(', ')}.`);
+    settings.length = length.id;
+  }
+  settings.language = controls.language?.trim() || '';
+  return composeGoals(goals, settings);
+};
+
+/**
+ * Runs `worker` over `items` with at most `limit` in flight, keeping result order.
+ */
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>) => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      goal: { type: 'string', short: 'g' },
+      intensity: { type: 'string' },
+      length: { type: 'string' },
+      language: { type: 'string' },
+      model: { type: 'string', short: 'm' },
+      key: { type: 'string', short: 'k' },
+      'base-url': { type: 'string' },
+      format: { type: 'string', short: 'f' },
+      fallback: { type: 'string' },
+      goals: { type: 'string' },
+      batch: { type: 'string', short: 'b' },
+      'in-place': { type: 'boolean', short: 'i' },
+      json: { type: 'boolean' },
+      concurrency: { type: 'string', short: 'c' },
+      'allow-sensitive': { type: 'boolean' },
+      'print-system': { type: 'boolean' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (!values.verbose) {
+    // The services log raw errors for the browser console; here each failure is reported once below.
+    console.error = () => {};
+  }
+
+  let customGoals: GoalDefinition[] = [];
+  if (values.goals) {
+    const report = parseBundle(await readFile(values.goals, 'utf8'));
+    report.errors.forEach(message => process.stderr.write(`warning: ${values.goals}: ${message}\n`));
+    customGoals = report.bundle.settings.customGoals || [];
+  }
+  const goal = resolveCliComposition(values.goal ?? process.env.PROMPTPERFECT_GOAL, values, mergeGoals(customGoals));
+  const format = (values.format || 'text') as OutputFormat;
+  if (!OUTPUT_FORMATS.some(f => f.id === format)) {
+    throw new UsageError(`Unknown format "${values.format}". Available: ${OUTPUT_FORMATS.map(f => f.id).join(', ')}.`);
+  }
+
+  if (values['print-system']) {
+    process.stdout.write(`${getSystemInstruction(goal, '', format)}\n`);
+    return 0;
+  }
+
+  const files = values.batch ? await expandGlob(values.batch) : positionals;
+  if (values.batch && files.length === 0) {
+    throw new UsageError(`No files match "${values.batch}".`);
+  }
+  if (files.length === 0 && process.stdin.isTTY) {
+    throw new UsageError("No prompt given. Pass a file, pipe the prompt on stdin, or use --batch.");
+  }
+  if (values['in-place'] && files.length === 0) {
+    throw new UsageError("--in-place needs at least one input file.");
+  }
+
+  const baseUrl = values['base-url'] ?? process.env.PROMPTPERFECT_BASE_URL;
+  const apiKey = values.key ?? process.env.PROMPTPERFECT_API_KEY ?? process.env.GEMINI_API_KEY;
+  // Gemini always needs a key; an OpenAI-compatible server may not.
+  if (!apiKey && !baseUrl) {
+    throw new UsageError("No API key. Pass --key or set PROMPTPERFECT_API_KEY (or GEMINI_API_KEY).");
+  }
+  const provider = createProvider(
+    { id: 'cli', kind: baseUrl ? 'openai-compatible' : 'gemini', name: baseUrl ? 'OpenAI-compatible server' : 'Gemini', baseUrl, models: [] },
+    apiKey
+  );
+  const model = values.model ?? process.env.PROMPTPERFECT_MODEL ?? DEFAULT_MODEL;
+  const fallbackModels = values.fallback?.split(',').map(m => m.trim()).filter(Boolean);
+  const concurrency = Math.max(1, Number(values.concurrency) || DEFAULT_CONCURRENCY);
+
+  const refineOne = async (file: string | null): Promise<CliResult> => {
+    const label = file ?? 'stdin';
+    try {
+      const rawPrompt = file ? await readFile(file, 'utf8') : await readStdin();
+      if (!rawPrompt.trim()) throw new UsageError(`${label} is empty.`);
+      const findings = lintPrompt(rawPrompt, DEFAULT_LINT_SETTINGS);
+      const blocked = findings.filter(f => f.action === 'block');
+      if (blocked.length > 0 && !values['allow-sensitive']) {
+        throw new PreflightError(`Not sent: ${label} contains ${summarizeFindings(blocked)}. Remove them or pass --allow-sensitive.`);
+      }
+      if (findings.length > 0) {
+        process.stderr.write(`${label}: warning: contains ${summarizeFindings(findings)}.\n`);
+      }
+      const recovery = {
+        fallbackModels,
+        onRetry: ({ error, attempt, delayMs, fallbackModel }: RetryNotice) => process.stderr.write(fallbackModel
+          ? `${label}: ${error.message} Falling back to ${fallbackModel}.\n`
+          : `${label}: ${error.message} Retrying in ${Math.ceil((delayMs || 0) / 1000)}s (attempt ${attempt}).\n`),
+      };
+      const result: RefinementResult & { structured?: StructuredPrompt } = format === 'text'
+        ? await refinePromptDetailed(rawPrompt, goal, model, provider, recovery)
+        : await refinePromptStructured(rawPrompt, goal, format, model, provider, recovery);
+      if (file && values['in-place']) {
+        await writeFile(file, `${result.text}\n`);
+      }
+      return {
+        file,
+        goal: compositionName(goal),
+        model: result.model,
+        refined: result.text,
+        structured: result.structured,
+        usage: result.usage,
+        latencyMs: result.latencyMs,
+      };
+    } catch (error: any) {
+      return {
+        file,
+        goal: compositionName(goal),
+        error: {
+          kind: error instanceof LLMError ? error.kind : error instanceof PreflightError ? 'preflight' : 'input',
+          message: error.message,
+        },
+      };
+    }
+  };
+
+  const results = files.length > 0
+    ? await mapWithConcurrency(files, concurrency, refineOne)
+    : [await refineOne(null)];
+  const failed = results.filter(r => r.error);
+
+  if (values.json || values.batch) {
+    process.stdout.write(`${JSON.stringify(values.batch || files.length > 1 ? results : results[0], null, 2)}\n`);
+  } else {
+    results.forEach(r => {
+      if (r.error) {
+        process.stderr.write(`${r.file ?? 'stdin'}: ${r.error.message}\n`);
+      } else if (values['in-place']) {
+        process.stderr.write(`Refined ${r.file}\n`);
+      } else {
+        process.stdout.write(`${r.refined}\n`);
+      }
+    });
+  }
+  return failed.length > 0 ? 1 : 0;
+};
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch((error) => {
+    process.stderr.write(`promptperfect: ${error.message}\n`);
+    if (error instanceof UsageError || error?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+      process.stderr.write(`Run with --help for usage.\n`);
+    }
+    process.exitCode = 2;
+  });
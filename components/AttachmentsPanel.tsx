@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Paperclip, FileText, ArrowRightLeft, Upload, ChevronDown, ChevronRight, Trash2, AlertTriangle } from 'lucide-react';
+import { PromptAttachment } from '../types.ts';
+import {
+  ATTACHMENT_FILE_TYPES,
+  ATTACHMENT_TOKEN_WARNING,
+  EMBEDDED_EXAMPLE_TOKEN_WARNING,
+  attachmentText,
+  createDocument,
+  createExample,
+  readAttachmentFile
+} from '../services/referenceContext.ts';
+import { estimateTokens } from '../services/geminiService.ts';
+
+interface AttachmentsPanelProps {
+  attachments: PromptAttachment[];
+  onChange: (attachments: PromptAttachment[]) => void;
+}
+
+/**
+ * Reference material for the refiner: pasted text, uploaded files and
+ * input -> output examples, which can be embedded as few-shot examples.
+ */
+const AttachmentsPanel: React.FC<AttachmentsPanelProps> = ({ attachments, onChange }) => {
+  const [openIds, setOpenIds] = useState<string[]>([]);
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+
+  const tokensOf = (attachment: PromptAttachment) => estimateTokens(attachmentText(attachment));
+  const totalTokens = attachments.reduce((sum, a) => sum + tokensOf(a), 0);
+  const embeddedTokens = attachments.reduce((sum, a) => sum + (a.kind === 'example' && a.embed ? tokensOf(a) : 0), 0);
+
+  const add = (attachment: PromptAttachment) => {
+    onChange([...attachments, attachment]);
+    setOpenIds([...openIds, attachment.id]);
+  };
+
+  const update = (id: string, patch: Partial<PromptAttachment>) =>
+    onChange(attachments.map(a => (a.id === id ? { ...a, ...patch } as PromptAttachment : a)));
+
+  const remove = (id: string) => onChange(attachments.filter(a => a.id !== id));
+
+  const toggleOpen = (id: string) =>
+    setOpenIds(openIds.includes(id) ? openIds.filter(openId => openId !== id) : [...openIds, id]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const results = await Promise.allSettled(files.map(readAttachmentFile));
+    const added = results.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []));
+    setUploadErrors(results.flatMap(r => (r.status === 'rejected' ? [r.reason?.message || String(r.reason)] : [])));
+    if (added.length) onChange([...attachments, ...added]);
+  };
+
+  const countExamples = attachments.filter(a => a.kind === 'example').length;
+  const textareaClass = "w-full bg-black/20 border border-white/5 rounded-lg p-2 text-gray-200 mono text-xs leading-relaxed resize-y outline-none focus:border-white/20";
+  const actionClass = "flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold bg-white/10 text-white hover:bg-white/20 transition-all cursor-pointer";
+
+  return (
+    <div className="mt-4 p-3 rounded-xl border border-white/5 bg-white/5 text-xs">
+      <div className="flex items-center gap-2">
+        <Paperclip className="w-4 h-4 text-gray-400 shrink-0" />
+        <span className="text-gray-400 font-bold uppercase tracking-wider text-[10px]">Reference Context</span>
+        {attachments.length > 0 && (
+          <span className="text-gray-600">· {attachments.length} attached · ~{totalTokens.toLocaleString()} tokens</span>
+        )}
+        <div className="ml-auto flex gap-1">
+          <button onClick={() => add(createDocument(`Notes ${attachments.length - countExamples + 1}`))} className={actionClass} title="Paste reference text">
+            <FileText className="w-3 h-3" />
+            TEXT
+          </button>
+          <label className={actionClass} title="Attach text, markdown or code files">
+            <Upload className="w-3 h-3" />
+            FILES
+            <input type="file" multiple accept={ATTACHMENT_FILE_TYPES} onChange={handleUpload} className="hidden" />
+          </label>
+          <button onClick={() => add(createExample(`Example ${countExamples + 1}`))} className={actionClass} title="Add an input -> output example">
+            <ArrowRightLeft className="w-3 h-3" />
+            EXAMPLE
+          </button>
+        </div>
+      </div>
+
+      {attachments.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {attachments.map(attachment => {
+            const isOpen = openIds.includes(attachment.id);
+            return (
+              <div key={attachment.id} className="rounded-lg border border-white/5 bg-black/20">
+                <div className="flex items-center gap-2 px-2 py-1.5">
+                  <button onClick={() => toggleOpen(attachment.id)} className="text-gray-500 hover:text-white transition-colors">
+                    {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                  </button>
+                  {attachment.kind === 'document'
+                    ? <FileText className="w-3.5 h-3.5 text-blue-400 shrink-0" />
+                    : <ArrowRightLeft className="w-3.5 h-3.5 text-purple-400 shrink-0" />}
+                  <input
+                    value={attachment.name}
+                    onChange={(e) => update(attachment.id, { name: e.target.value })}
+                    className="flex-grow min-w-0 bg-transparent text-gray-200 font-semibold outline-none"
+                  />
+                  <span className="text-[10px] text-gray-600 shrink-0">~{tokensOf(attachment).toLocaleString()} tok</span>
+                  {attachment.kind === 'example' && (
+                    <label className="flex items-center gap-1 text-[10px] text-gray-400 shrink-0 cursor-pointer" title="Copy this example into the refined prompt as a few-shot example">
+                      <input
+                        type="checkbox"
+                        checked={attachment.embed}
+                        onChange={(e) => update(attachment.id, { embed: e.target.checked })}
+                        className="accent-purple-500"
+                      />
+                      Embed
+                    </label>
+                  )}
+                  <button onClick={() => remove(attachment.id)} className="text-gray-500 hover:text-red-400 transition-colors shrink-0" title="Remove">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                {isOpen && (
+                  <div className="px-2 pb-2 space-y-2">
+                    {attachment.kind === 'document' ? (
+                      <textarea
+                        value={attachment.content}
+                        onChange={(e) => update(attachment.id, { content: e.target.value })}
+                        placeholder="Paste a document, spec or code snippet the prompt depends on..."
+                        className={`${textareaClass} h-32`}
+                      />
+                    ) : (
+                      <>
+                        <textarea
+                          value={attachment.input}
+                          onChange={(e) => update(attachment.id, { input: e.target.value })}
+                          placeholder="Input"
+                          className={`${textareaClass} h-20`}
+                        />
+                        <textarea
+                          value={attachment.output}
+                          onChange={(e) => update(attachment.id, { output: e.target.value })}
+                          placeholder="Expected output"
+                          className={`${textareaClass} h-20`}
+                        />
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {(totalTokens > ATTACHMENT_TOKEN_WARNING || embeddedTokens > EMBEDDED_EXAMPLE_TOKEN_WARNING) && (
+        <div className="mt-3 space-y-1 text-yellow-300">
+          {totalTokens > ATTACHMENT_TOKEN_WARNING && (
+            <p className="flex items-start gap-1.5">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+              Attachments add about {totalTokens.toLocaleString()} tokens to every refinement and revision. Trim them to what the prompt needs to keep requests fast and cheap.
+            </p>
+          )}
+          {embeddedTokens > EMBEDDED_EXAMPLE_TOKEN_WARNING && (
+            <p className="flex items-start gap-1.5">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+              Embedded examples make the refined prompt about {embeddedTokens.toLocaleString()} tokens longer each time it is used. Embed fewer or shorter examples.
+            </p>
+          )}
+        </div>
+      )}
+      {uploadErrors.length > 0 && (
+        <ul className="mt-2 text-red-400 space-y-0.5">
+          {uploadErrors.map((message, index) => <li key={index}>{message}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentsPanel;
@@ -0,0 +1,305 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Layers, Upload, Download, Pause, Play, RotateCw, Zap, CircleCheck, CircleX, Clock } from 'lucide-react';
+import { ProviderOrKey, refinePromptDetailed } from '../services/geminiService.ts';
+import { ComposedGoal, compositionName } from '../services/goalRegistry.ts';
+import { BatchItem, BatchQueue, BatchSnapshot, createBatchQueue } from '../services/batchQueue.ts';
+import { BatchFormat, BatchOutputItem, ParsedBatch, detectBatchFormat, formatBatchOutput, parseBatch } from '../utils/batchFormat.ts';
+import { downloadFile } from '../utils/download.ts';
+
+interface BatchPanelProps {
+  goal: ComposedGoal;
+  model: string;
+  modelName: (id: string) => string;
+  provider: ProviderOrKey;
+  providerName: string;
+  fallbackModels?: string[];
+  /** Applies the budget cap to the whole batch. Returns false to cancel the run. */
+  onConfirmStart: (prompts: string[]) => boolean;
+  /** Called for each refined item when saving to the library is on. */
+  onItemDone: (item: BatchItem, goal: ComposedGoal) => void;
+}
+
+const FORMAT_LABELS: Record<BatchFormat, string> = { text: 'Plain text', jsonl: 'JSONL', csv: 'CSV' };
+const MIME_TYPES: Record<BatchFormat, string> = { text: 'text/plain', jsonl: 'application/x-ndjson', csv: 'text/csv' };
+const EXTENSIONS: Record<BatchFormat, string> = { text: 'txt', jsonl: 'jsonl', csv: 'csv' };
+const MAX_CONCURRENCY = 8;
+
+const STATUS_ICONS: Record<BatchItem['status'], React.ReactNode> = {
+  queued: <Clock className="w-3.5 h-3.5 text-gray-600" />,
+  running: <div className="w-3.5 h-3.5 border-2 border-gray-600 border-t-white rounded-full animate-spin" />,
+  done: <CircleCheck className="w-3.5 h-3.5 text-green-400" />,
+  error: <CircleX className="w-3.5 h-3.5 text-red-400" />,
+};
+
+/**
+ * Refines a pasted or uploaded list of prompts (plain text, JSONL or CSV) with
+ * bounded concurrency, and exports the results in the same format.
+ */
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  goal,
+  model,
+  modelName,
+  provider,
+  providerName,
+  fallbackModels,
+  onConfirmStart,
+  onItemDone,
+}) => {
+  const [text, setText] = useState('');
+  const [filename, setFilename] = useState<string | null>(null);
+  const [format, setFormat] = useState<BatchFormat>('text');
+  const [concurrency, setConcurrency] = useState(3);
+  const [saveToLibrary, setSaveToLibrary] = useState(true);
+  // The batch being run, frozen at start so editing the input doesn't shift results.
+  // `rows` maps each queue item to its position in `batch.items`, since skipped rows aren't queued.
+  const [running, setRunning] = useState<{ batch: ParsedBatch; rows: number[]; goal: ComposedGoal; model: string } | null>(null);
+  const [snapshot, setSnapshot] = useState<BatchSnapshot | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [, setTick] = useState(0);
+  const queueRef = useRef<BatchQueue | null>(null);
+  const saveRef = useRef(saveToLibrary);
+  saveRef.current = saveToLibrary;
+
+  useEffect(() => () => queueRef.current?.dispose(), []);
+
+  // Re-render every second while rate limited so the countdown stays current.
+  useEffect(() => {
+    if (!snapshot?.cooldownUntil) return;
+    const timer = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [snapshot?.cooldownUntil]);
+
+  const parsed = useMemo((): { batch?: ParsedBatch; error?: string } => {
+    if (!text.trim()) return {};
+    try {
+      return { batch: parseBatch(text, format) };
+    } catch (err: any) {
+      return { error: err.message || "Could not parse the list." };
+    }
+  }, [text, format]);
+
+  const runnableCount = parsed.batch?.items.filter(item => !item.skipped).length || 0;
+  const skippedCount = (parsed.batch?.items.length || 0) - runnableCount;
+  const items = snapshot?.items || [];
+  const counts = {
+    done: items.filter(i => i.status === 'done').length,
+    error: items.filter(i => i.status === 'error').length,
+  };
+  const isActive = snapshot?.state === 'running' || snapshot?.state === 'paused';
+  const cooldownSeconds = snapshot?.cooldownUntil ? Math.max(0, Math.ceil((snapshot.cooldownUntil - Date.now()) / 1000)) : 0;
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const content = await file.text();
+      setText(content);
+      setFilename(file.name);
+      setFormat(detectBatchFormat(content, file.name));
+    }
+    e.target.value = '';
+  };
+
+  const handleStart = () => {
+    const batch = parsed.batch;
+    if (!batch || runnableCount === 0) return;
+    const rows = batch.items.flatMap((item, index) => (item.skipped ? [] : [index]));
+    const prompts = rows.map(index => batch.items[index].prompt);
+    if (!onConfirmStart(prompts)) return;
+
+    queueRef.current?.dispose();
+    const runGoal = goal;
+    setRunning({ batch, rows, goal: runGoal, model });
+    setExpanded(null);
+    queueRef.current = createBatchQueue(prompts, {
+      concurrency,
+      providerName,
+      run: (prompt, recovery) => refinePromptDetailed(prompt, runGoal, model, provider, { ...recovery, fallbackModels }),
+      onChange: setSnapshot,
+      onItemDone: (item) => {
+        if (saveRef.current) onItemDone(item, runGoal);
+      },
+    });
+  };
+
+  const handleConcurrency = (value: number) => {
+    setConcurrency(value);
+    queueRef.current?.setConcurrency(value);
+  };
+
+  const handleDownload = () => {
+    if (!running) return;
+    const results = running.batch.items.map((input): BatchOutputItem => ({ error: input.skipped }));
+    items.forEach(item => {
+      results[running.rows[item.index]] = {
+        refined: item.refined,
+        error: item.status === 'error' ? item.error?.message : undefined,
+      };
+    });
+    const output = formatBatchOutput(running.batch, results);
+    const base = filename ? filename.replace(/\.[^.]+$/, '') : 'prompts';
+    downloadFile(`${base}.refined.${EXTENSIONS[running.batch.format]}`, output, MIME_TYPES[running.batch.format]);
+  };
+
+  const inputClass = "bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-white outline-none focus:border-purple-500/50 transition-colors";
+  const smallButton = "flex items-center gap-1 px-3 py-1.5 rounded-lg text-[10px] font-bold bg-white/10 text-white hover:bg-white/20 transition-all disabled:opacity-30";
+
+  return (
+    <section className="glass rounded-3xl p-6 shadow-2xl">
+      <div className="flex items-center gap-2 text-gray-400 text-sm font-medium mb-4">
+        <Layers className="w-4 h-4 text-purple-400" />
+        BATCH REFINE
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        Paste one prompt per line (separate multi-line prompts with a blank line or <span className="mono">---</span>), or upload a .txt, .jsonl or .csv file.
+        JSONL and CSV prompts are read from a <span className="mono">prompt</span>, <span className="mono">text</span> or <span className="mono">input</span> field, or the first column.
+      </p>
+      <textarea
+        value={text}
+        onChange={(e) => {
+          // Detect the format of a fresh paste; after that, keep whatever is selected.
+          if (!text.trim()) setFormat(detectBatchFormat(e.target.value));
+          setText(e.target.value);
+        }}
+        disabled={isActive}
+        placeholder={"summarize this article\nwrite a regex for emails\n..."}
+        className={`${inputClass} w-full h-32 resize-y mono disabled:opacity-50`}
+      />
+
+      <div className="mt-3 flex flex-wrap items-center gap-3">
+        <label className={`inline-flex items-center gap-2 text-xs text-gray-400 hover:text-white cursor-pointer transition-colors ${isActive ? 'opacity-50 pointer-events-none' : ''}`}>
+          <Upload className="w-3 h-3" />
+          {filename || 'Upload file'}
+          <input type="file" accept=".txt,.md,.jsonl,.ndjson,.csv,text/plain,text/csv" onChange={handleUpload} className="hidden" />
+        </label>
+        <select value={format} onChange={(e) => setFormat(e.target.value as BatchFormat)} disabled={isActive} className={inputClass}>
+          {(Object.keys(FORMAT_LABELS) as BatchFormat[]).map(f => (
+            <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          Parallel
+          <input
+            type="number"
+            min={1}
+            max={MAX_CONCURRENCY}
+            value={concurrency}
+            onChange={(e) => handleConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+            className={`${inputClass} w-16`}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={saveToLibrary} onChange={(e) => setSaveToLibrary(e.target.checked)} className="accent-purple-500" />
+          Save results to library
+        </label>
+      </div>
+      {parsed.error && <p className="mt-2 text-xs text-red-400">{parsed.error}</p>}
+      {skippedCount > 0 && (
+        <p className="mt-2 text-xs text-yellow-400">
+          {skippedCount} row{skippedCount === 1 ? ' has' : 's have'} an empty prompt and will be skipped. The export keeps {skippedCount === 1 ? 'it' : 'them'} with the reason.
+        </p>
+      )}
+
+      {isActive ? (
+        <div className="mt-6 flex gap-3">
+          <div className="flex-grow py-3 rounded-2xl font-bold flex items-center justify-center gap-2 bg-gray-800 text-gray-500 text-sm">
+            {snapshot!.state === 'paused' ? 'Paused' : (
+              <>
+                <div className="w-4 h-4 border-2 border-gray-500 border-t-white rounded-full animate-spin" />
+                {cooldownSeconds > 0 ? `Rate limited, waiting ${cooldownSeconds}s...` : 'Refining...'}
+              </>
+            )}
+          </div>
+          <button
+            onClick={() => (snapshot!.state === 'paused' ? queueRef.current?.resume() : queueRef.current?.pause())}
+            className="px-6 py-3 rounded-2xl font-bold flex items-center justify-center gap-2 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 transition-all active:scale-[0.98] text-sm"
+          >
+            {snapshot!.state === 'paused' ? <Play className="w-4 h-4 fill-current" /> : <Pause className="w-4 h-4 fill-current" />}
+            {snapshot!.state === 'paused' ? 'Resume' : 'Pause'}
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleStart}
+          disabled={runnableCount === 0}
+          className="mt-6 w-full py-3 rounded-2xl font-bold flex items-center justify-center gap-2 transition-all active:scale-[0.98] bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 hover:shadow-xl hover:shadow-red-500/40 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Zap className="w-4 h-4 fill-current" />
+          Refine {runnableCount} Prompts · {compositionName(goal)} · {modelName(model)}
+        </button>
+      )}
+
+      {running && items.length > 0 && (
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+              {counts.done}/{items.length} refined{counts.error > 0 && <span className="text-red-400"> · {counts.error} failed</span>}
+              {' '}· {compositionName(running.goal)} · {modelName(running.model)}
+            </span>
+            <div className="flex gap-2">
+              {counts.error > 0 && (
+                <button onClick={() => queueRef.current?.retry()} className={smallButton}>
+                  <RotateCw className="w-3 h-3" />
+                  RETRY FAILED
+                </button>
+              )}
+              <button onClick={handleDownload} disabled={counts.done === 0} className={smallButton}>
+                <Download className="w-3 h-3" />
+                {FORMAT_LABELS[running.batch.format].toUpperCase()}
+              </button>
+            </div>
+          </div>
+          <div className="h-1.5 rounded-full bg-white/5 overflow-hidden mb-3">
+            <div
+              className="h-full bg-gradient-to-r from-blue-500 via-purple-500 to-red-500 transition-all"
+              style={{ width: `${((counts.done + counts.error) / items.length) * 100}%` }}
+            />
+          </div>
+
+          <div className="max-h-96 overflow-y-auto space-y-1">
+            {items.map(item => (
+              <div key={item.index} className="rounded-lg bg-black/20 border border-white/5">
+                <button
+                  onClick={() => setExpanded(expanded === item.index ? null : item.index)}
+                  className="w-full flex items-center gap-2 p-2 text-left"
+                >
+                  <span className="shrink-0">{STATUS_ICONS[item.status]}</span>
+                  <span className="text-[10px] text-gray-600 tabular-nums shrink-0">#{running.rows[item.index] + 1}</span>
+                  <span className="flex-grow text-[11px] text-gray-400 mono truncate">{item.prompt}</span>
+                  {item.status === 'error' && (
+                    <span
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        queueRef.current?.retry([item.index]);
+                      }}
+                      className="shrink-0 text-[10px] font-bold text-red-400 hover:text-red-300"
+                    >
+                      RETRY
+                    </span>
+                  )}
+                  {item.status === 'done' && item.latencyMs !== undefined && (
+                    <span className="shrink-0 text-[10px] text-gray-600 tabular-nums">{(item.latencyMs / 1000).toFixed(1)}s</span>
+                  )}
+                </button>
+                {expanded === item.index && (item.refined || item.error) && (
+                  <div className="px-3 pb-3">
+                    {item.error ? (
+                      <p className="text-xs text-red-400">{item.error.message}</p>
+                    ) : (
+                      <div className="max-h-60 overflow-y-auto mono text-gray-200 text-xs leading-relaxed whitespace-pre-wrap break-words">{item.refined}</div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {running.batch.format === 'text' && counts.error > 0 && (
+            <p className="mt-2 text-[10px] text-gray-600">Plain text exports leave out prompts that failed.</p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BatchPanel;
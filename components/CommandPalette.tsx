@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, Zap, Target, Cpu, History } from 'lucide-react';
+import { fuzzyScore } from '../utils/fuzzyMatch.ts';
+import { formatBinding } from '../services/shortcuts.ts';
+
+export type PaletteGroup = 'Actions' | 'Goals' | 'Models' | 'History';
+
+export interface PaletteCommand {
+  id: string;
+  group: PaletteGroup;
+  label: string;
+  /** Secondary text, also searched. */
+  detail?: string;
+  /** Binding shown next to the command. */
+  shortcut?: string;
+  /** Marks the current goal or model. */
+  isActive?: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+const GROUP_ICONS: Record<PaletteGroup, React.ReactNode> = {
+  Actions: <Zap className="w-3.5 h-3.5 text-red-400" />,
+  Goals: <Target className="w-3.5 h-3.5 text-purple-400" />,
+  Models: <Cpu className="w-3.5 h-3.5 text-blue-400" />,
+  History: <History className="w-3.5 h-3.5 text-gray-400" />,
+};
+
+// Before anything is typed, only the most recent entries are listed.
+const RECENT_HISTORY_LIMIT = 8;
+const MAX_RESULTS = 50;
+
+/**
+ * Fuzzy search over actions, goals, models and library entries, driven
+ * entirely from the keyboard. Focus returns to where it was on close.
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => {
+    if (!query.trim()) {
+      const history = commands.filter(c => c.group === 'History').slice(0, RECENT_HISTORY_LIMIT);
+      return [...commands.filter(c => c.group !== 'History'), ...history];
+    }
+    return commands
+      .map(command => ({ command, score: fuzzyScore(query, `${command.label} ${command.detail || ''}`) }))
+      .filter((r): r is { command: PaletteCommand; score: number } => r.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map(r => r.command);
+  }, [commands, query]);
+
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    inputRef.current?.focus();
+    return () => {
+      // Leave focus alone if the command that closed the palette moved it somewhere else.
+      if (!document.activeElement || document.activeElement === document.body) previousFocus?.focus();
+    };
+  }, []);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runCommand = (command: PaletteCommand) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const last = results.length - 1;
+    switch (e.key) {
+      case 'ArrowDown':
+        setActiveIndex(i => (i >= last ? 0 : i + 1));
+        break;
+      case 'ArrowUp':
+        setActiveIndex(i => (i <= 0 ? last : i - 1));
+        break;
+      case 'Home':
+        setActiveIndex(0);
+        break;
+      case 'End':
+        setActiveIndex(last);
+        break;
+      case 'Enter':
+        if (results[activeIndex]) runCommand(results[activeIndex]);
+        break;
+      case 'Escape':
+        onClose();
+        break;
+      // The search box is the only focusable element, which keeps focus inside the dialog.
+      case 'Tab':
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const optionId = (index: number) => `command-palette-option-${index}`;
+
+  return (
+    <div
+      className="fixed inset-0 z-[110] flex items-start justify-center bg-black/80 backdrop-blur-sm p-4 pt-[15vh]"
+      onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="bg-[#0a0a0a] border border-white/10 rounded-2xl w-full max-w-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-white/10">
+          <Search className="w-4 h-4 text-gray-500 shrink-0" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search actions, goals, models and history..."
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-list"
+            aria-autocomplete="list"
+            aria-activedescendant={results[activeIndex] ? optionId(activeIndex) : undefined}
+            className="flex-grow bg-transparent text-white text-sm outline-none placeholder:text-gray-600"
+          />
+        </div>
+
+        <ul ref={listRef} id="command-palette-list" role="listbox" aria-label="Commands" className="max-h-[50vh] overflow-y-auto p-2">
+          {results.map((command, index) => (
+            <li
+              key={command.id}
+              id={optionId(index)}
+              data-index={index}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseMove={() => setActiveIndex(index)}
+              onClick={() => runCommand(command)}
+              className={`flex items-center gap-3 px-3 py-2 rounded-xl text-sm cursor-pointer ${
+                index === activeIndex ? 'bg-white/10 text-white' : 'text-gray-400'
+              }`}
+            >
+              <span className="shrink-0" aria-hidden="true">{GROUP_ICONS[command.group]}</span>
+              <span className="min-w-0 flex-grow truncate">
+                {command.label}
+                {command.detail && <span className="ml-2 text-xs text-gray-600">{command.detail}</span>}
+              </span>
+              {command.isActive && <span className="text-[10px] font-bold text-red-400 shrink-0">CURRENT</span>}
+              {command.shortcut && (
+                <kbd className="mono text-[10px] text-gray-500 bg-white/5 border border-white/10 rounded px-1.5 py-0.5 shrink-0">
+                  {formatBinding(command.shortcut)}
+                </kbd>
+              )}
+              <span className="sr-only">{command.group}</span>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="px-3 py-6 text-center text-sm text-gray-600">No matching commands.</li>
+          )}
+        </ul>
+
+        <div className="flex gap-4 px-4 py-2 border-t border-white/10 text-[10px] text-gray-600" aria-hidden="true">
+          <span>↑↓ move</span>
+          <span>↩ run</span>
+          <span>esc close</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,259 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Columns3, Trophy, Zap, Clock, Hash, Square } from 'lucide-react';
+import { GoalDefinition, ModelOption, PromptAttachment, TokenUsage } from '../types.ts';
+import { ProviderOrKey, RefinementResult, refinePromptDetailed } from '../services/geminiService.ts';
+import { ComposedGoal, DEFAULT_GOAL_WEIGHT, composeGoals, compositionName } from '../services/goalRegistry.ts';
+import { LLMError, toDisplayError } from '../services/providers/llmErrors.ts';
+import ErrorNotice from './ErrorNotice.tsx';
+
+export interface CompareResult {
+  id: string;
+  // The raw prompt as it was when the comparison started.
+  original: string;
+  attachments: PromptAttachment[];
+  model: ModelOption;
+  goal: ComposedGoal;
+  status: 'pending' | 'done' | 'error' | 'cancelled';
+  text?: string;
+  latencyMs?: number;
+  usage?: TokenUsage;
+  error?: LLMError | string;
+}
+
+interface ComparePanelProps {
+  input: string;
+  /** Reference material sent with every run. */
+  attachments: PromptAttachment[];
+  models: ModelOption[];
+  goals: GoalDefinition[];
+  /** The current goal composition. Its intensity, length and language apply to every run. */
+  goal: ComposedGoal;
+  provider: ProviderOrKey;
+  /** Runs the pre-flight and budget checks for the given runs, one model id per run. Returns false to cancel. */
+  onConfirmRun: (modelIds: string[]) => boolean;
+  /**
+   * Called for every finished run, picked or not, so its cost is recorded. Runs
+   * cancelled after they were sent have no result and are recorded from an estimate.
+   */
+  onUsage: (run: CompareResult, result?: RefinementResult) => void;
+  onPickWinner: (result: CompareResult) => void;
+  onUpdateKey: () => void;
+  onEditModels: () => void;
+}
+
+// Option id for the current composition when it combines several goals.
+const COMPOSITION_ID = 'composition';
+
+/**
+ * Runs the same raw prompt against several models (and optionally several goals)
+ * in parallel and shows the results side by side.
+ */
+const ComparePanel: React.FC<ComparePanelProps> = ({
+  input,
+  attachments,
+  models,
+  goals,
+  goal,
+  provider,
+  onConfirmRun,
+  onUsage,
+  onPickWinner,
+  onUpdateKey,
+  onEditModels,
+}) => {
+  const [modelIds, setModelIds] = useState<string[]>(() => models.map(m => m.id));
+  const isComposition = goal.definitions.length > 1;
+  const [goalIds, setGoalIds] = useState<string[]>([isComposition ? COMPOSITION_ID : goal.definitions[0].id]);
+  const [results, setResults] = useState<CompareResult[]>([]);
+  const [winnerId, setWinnerId] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Closing the panel stops the runs still in flight.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const isRunning = results.some(r => r.status === 'pending');
+  const selectedModels = models.filter(m => modelIds.includes(m.id));
+  // Each goal on its own, plus the full composition when there is one, all with the current controls.
+  const goalOptions = [
+    ...(isComposition ? [{ id: COMPOSITION_ID, name: compositionName(goal), goal }] : []),
+    ...goals.map(g => ({
+      id: g.id,
+      name: g.name,
+      goal: composeGoals(goals, { ...goal.settings, goals: [{ goalId: g.id, weight: DEFAULT_GOAL_WEIGHT }] }),
+    })),
+  ];
+  const selectedGoals = goalOptions.filter(g => goalIds.includes(g.id));
+
+  const toggle = (list: string[], id: string) =>
+    list.includes(id) ? list.filter(x => x !== id) : [...list, id];
+
+  const handleRun = async () => {
+    if (!input.trim() || selectedModels.length === 0 || selectedGoals.length === 0) return;
+    if (!onConfirmRun(selectedGoals.flatMap(() => selectedModels.map(m => m.id)))) return;
+
+    const runs: CompareResult[] = selectedGoals.flatMap(option =>
+      selectedModels.map(model => ({
+        id: `${model.id}::${option.id}`,
+        original: input,
+        attachments,
+        model,
+        goal: option.goal,
+        status: 'pending' as const,
+      }))
+    );
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setResults(runs);
+    setWinnerId(null);
+
+    const update = (id: string, patch: Partial<CompareResult>) =>
+      setResults(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+    await Promise.all(runs.map(async (run) => {
+      try {
+        const result = await refinePromptDetailed(input, run.goal, run.model.id, provider, { signal: controller.signal }, attachments);
+        onUsage(run, result);
+        update(run.id, { status: 'done', text: result.text, latencyMs: result.latencyMs, usage: result.usage });
+      } catch (err: any) {
+        if (controller.signal.aborted) {
+          onUsage(run);
+          update(run.id, { status: 'cancelled' });
+          return;
+        }
+        update(run.id, { status: 'error', error: toDisplayError(err) });
+      }
+    }));
+  };
+
+  const handlePick = (result: CompareResult) => {
+    setWinnerId(result.id);
+    onPickWinner(result);
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 border ${
+      active
+        ? 'bg-purple-600/20 border-purple-500/50 text-purple-200'
+        : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+    }`;
+
+  return (
+    <section className="glass rounded-3xl p-6 shadow-2xl">
+      <div className="flex items-center gap-2 text-gray-400 text-sm font-medium mb-4">
+        <Columns3 className="w-4 h-4 text-purple-400" />
+        COMPARE MODELS
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <div className="text-gray-500 text-xs font-bold uppercase tracking-widest mb-2">Models</div>
+          <div className="flex flex-wrap gap-2">
+            {models.map(m => (
+              <button key={m.id} onClick={() => setModelIds(toggle(modelIds, m.id))} className={chipClass(modelIds.includes(m.id))}>
+                {m.name}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-500 text-xs font-bold uppercase tracking-widest mb-2">Goals</div>
+          <div className="flex flex-wrap gap-2">
+            {goalOptions.map(g => (
+              <button key={g.id} onClick={() => setGoalIds(toggle(goalIds, g.id))} className={chipClass(goalIds.includes(g.id))}>
+                {g.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {isRunning ? (
+        <div className="mt-6 flex gap-3">
+          <div className="flex-grow py-3 rounded-2xl font-bold flex items-center justify-center gap-2 bg-gray-800 text-gray-500 text-sm">
+            <div className="w-4 h-4 border-2 border-gray-500 border-t-white rounded-full animate-spin" />
+            Comparing...
+          </div>
+          <button
+            onClick={() => controllerRef.current?.abort()}
+            className="px-6 py-3 rounded-2xl font-bold flex items-center justify-center gap-2 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 transition-all active:scale-[0.98] text-sm"
+          >
+            <Square className="w-4 h-4 fill-current" />
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleRun}
+          disabled={!input.trim() || selectedModels.length === 0 || selectedGoals.length === 0}
+          className="mt-6 w-full py-3 rounded-2xl font-bold flex items-center justify-center gap-2 transition-all active:scale-[0.98] bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 hover:shadow-xl hover:shadow-red-500/40 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Zap className="w-4 h-4 fill-current" />
+          Run {selectedModels.length * selectedGoals.length} Refinements
+        </button>
+      )}
+      {!input.trim() && (
+        <p className="mt-2 text-xs text-gray-600 text-center">Enter a raw prompt above to compare.</p>
+      )}
+
+      {results.length > 0 && (
+        <div className="mt-6 flex gap-4 overflow-x-auto pb-2">
+          {results.map(r => (
+            <div
+              key={r.id}
+              className={`min-w-[280px] flex-1 rounded-2xl p-4 border flex flex-col ${
+                winnerId === r.id ? 'border-yellow-500/50 bg-yellow-500/5' : 'border-white/10 bg-white/5'
+              }`}
+            >
+              <div className="mb-3">
+                <div className="text-xs font-bold text-purple-300">{r.model.name}</div>
+                {selectedGoals.length > 1 && (
+                  <div className="text-[10px] text-red-400 font-bold uppercase tracking-wider">{compositionName(r.goal)}</div>
+                )}
+              </div>
+
+              <div className="flex-grow max-h-80 overflow-y-auto">
+                {r.status === 'pending' && (
+                  <div className="space-y-3">
+                    <div className="h-3 w-3/4 rounded-full shimmer bg-white/5" />
+                    <div className="h-3 w-full rounded-full shimmer bg-white/5" />
+                    <div className="h-3 w-2/3 rounded-full shimmer bg-white/5" />
+                  </div>
+                )}
+                {r.status === 'error' && <ErrorNotice error={r.error!} onUpdateKey={onUpdateKey} onEditModels={onEditModels} />}
+                {r.status === 'cancelled' && <p className="text-xs text-gray-600">Cancelled.</p>}
+                {r.status === 'done' && (
+                  <div className="mono text-gray-200 text-xs leading-relaxed whitespace-pre-wrap break-words">{r.text}</div>
+                )}
+              </div>
+
+              {r.status === 'done' && (
+                <div className="mt-4 pt-3 border-t border-white/10 space-y-3">
+                  <div className="flex items-center gap-4 text-[10px] text-gray-500 font-bold uppercase tracking-wider">
+                    <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{(r.latencyMs! / 1000).toFixed(1)}s</span>
+                    {r.usage && (
+                      <span className="flex items-center gap-1" title={`${r.usage.promptTokens} in / ${r.usage.candidatesTokens} out / ${r.usage.thoughtsTokens} thinking`}>
+                        <Hash className="w-3 h-3" />{r.usage.totalTokens} tokens
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handlePick(r)}
+                    disabled={winnerId === r.id}
+                    className={`w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                      winnerId === r.id ? 'bg-yellow-500/20 text-yellow-400' : 'bg-white/10 text-white hover:bg-white/20'
+                    }`}
+                  >
+                    <Trophy className="w-3 h-3" />
+                    {winnerId === r.id ? 'WINNER' : 'PICK AS WINNER'}
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ComparePanel;
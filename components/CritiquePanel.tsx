@@ -0,0 +1,101 @@
+import React from 'react';
+import { Microscope, Check, X, ArrowRight, Trash2 } from 'lucide-react';
+import { CritiqueAnnotation, PromptCritique } from '../types.ts';
+import { CRITIQUE_CATEGORIES, locateQuote } from '../services/promptAnalysis.ts';
+
+interface CritiquePanelProps {
+  critique: PromptCritique;
+  /** The prompt as it is now, which may have changed since it was analyzed. */
+  text: string;
+  activeId: string | null;
+  modelName: (id: string) => string;
+  onSelect: (annotation: CritiqueAnnotation) => void;
+  onApply: (annotation: CritiqueAnnotation) => void;
+  onDismiss: (id: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * The findings of Analyze mode. Each one is marked on the raw prompt, and a
+ * suggested edit replaces just its own span.
+ */
+const CritiquePanel: React.FC<CritiquePanelProps> = ({ critique, text, activeId, modelName, onSelect, onApply, onDismiss, onClose }) => {
+  const counts = CRITIQUE_CATEGORIES
+    .map(c => ({ ...c, count: critique.annotations.filter(a => a.category === c.id).length }))
+    .filter(c => c.count > 0);
+
+  return (
+    <div className="mt-4 p-3 rounded-xl border border-white/5 bg-white/5 text-xs">
+      <div className="flex items-center gap-2">
+        <Microscope className="w-4 h-4 text-gray-400 shrink-0" />
+        <span className="text-gray-400 font-bold uppercase tracking-wider text-[10px]">Analysis</span>
+        <span className="text-gray-600">· {modelName(critique.model)}</span>
+        <button onClick={onClose} className="ml-auto text-gray-500 hover:text-white transition-colors" title="Close the analysis">
+          <Trash2 className="w-3.5 h-3.5 rotate-45" />
+        </button>
+      </div>
+
+      <p className="mt-2 text-gray-300 leading-relaxed">{critique.summary}</p>
+
+      {counts.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-1.5">
+          {counts.map(c => (
+            <span key={c.id} className={`px-2 py-0.5 rounded-full border text-[10px] font-bold ${c.badgeClassName}`} title={c.description}>
+              {c.name} · {c.count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {critique.annotations.length === 0 ? (
+        <p className="mt-3 text-gray-500">No problems found.</p>
+      ) : (
+        <ul className="mt-3 space-y-2">
+          {critique.annotations.map(annotation => {
+            const category = CRITIQUE_CATEGORIES.find(c => c.id === annotation.category)!;
+            const isAnchored = !!locateQuote(text, annotation.quote, annotation.start);
+            return (
+              <li
+                key={annotation.id}
+                className={`rounded-lg border bg-black/20 p-2 space-y-1.5 ${annotation.id === activeId ? 'border-white/30' : 'border-white/5'}`}
+              >
+                <div className="flex items-start gap-2">
+                  <span className={`px-2 py-0.5 rounded-full border text-[10px] font-bold shrink-0 ${category.badgeClassName}`}>{category.name}</span>
+                  <button
+                    onClick={() => onSelect(annotation)}
+                    disabled={!isAnchored}
+                    className="flex-grow min-w-0 text-left mono text-gray-400 truncate hover:text-white disabled:hover:text-gray-400 disabled:cursor-default transition-colors"
+                    title={isAnchored ? 'Select this span in the prompt' : 'This span is no longer in the prompt'}
+                  >
+                    "{annotation.quote}"
+                  </button>
+                  <button onClick={() => onDismiss(annotation.id)} className="text-gray-500 hover:text-white transition-colors shrink-0" title="Dismiss">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <p className="text-gray-300 leading-relaxed">{annotation.explanation}</p>
+                {annotation.suggestion !== undefined && (
+                  <div className="flex items-start gap-2">
+                    <ArrowRight className="w-3.5 h-3.5 text-green-400 shrink-0 mt-px" />
+                    <span className="flex-grow min-w-0 mono text-green-300 whitespace-pre-wrap break-words">{annotation.suggestion}</span>
+                    <button
+                      onClick={() => onApply(annotation)}
+                      disabled={!isAnchored}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold bg-white/10 text-white hover:bg-white/20 transition-all disabled:opacity-30 disabled:cursor-not-allowed shrink-0"
+                      title={isAnchored ? 'Replace the quoted span with this edit' : 'This span is no longer in the prompt'}
+                    >
+                      <Check className="w-3 h-3" />
+                      APPLY
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CritiquePanel;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { LLMError, LLMErrorKind } from '../services/providers/llmErrors.ts';
+
+interface ErrorNoticeProps {
+  error: LLMError | string;
+  /** Opens wherever the current provider's credentials are configured. */
+  onUpdateKey: () => void;
+  /** Opens the provider settings to fix the model list or fallback chain. */
+  onEditModels: () => void;
+  /** Re-sends the request that failed, when there is one. */
+  onRetry?: () => void;
+}
+
+type RemediationAction = 'update-key' | 'edit-models' | 'retry';
+
+const REMEDIATIONS: Record<LLMErrorKind, { hint: string; actions: { action: RemediationAction; label: string }[] }> = {
+  'invalid-key': {
+    hint: "Check that the key is correct and has access to this API.",
+    actions: [{ action: 'update-key', label: 'UPDATE KEY' }],
+  },
+  'rate-limit': {
+    hint: "Wait a moment before retrying, or add a cheaper fallback model for this provider.",
+    actions: [{ action: 'retry', label: 'RETRY' }, { action: 'edit-models', label: 'ADD FALLBACK' }],
+  },
+  'model-not-found': {
+    hint: "The model id may be misspelled, retired, or not available to your key.",
+    actions: [{ action: 'edit-models', label: 'EDIT MODELS' }],
+  },
+  safety: {
+    hint: "Rephrase the prompt to avoid content the provider's safety filters block.",
+    actions: [],
+  },
+  network: {
+    hint: "Check your connection, or that the local server is running and allows requests from this page.",
+    actions: [{ action: 'retry', label: 'RETRY' }],
+  },
+  'empty-response': {
+    hint: "Retrying or switching to another model usually helps.",
+    actions: [{ action: 'retry', label: 'RETRY' }],
+  },
+  server: {
+    hint: "The provider is having trouble. Retry in a moment.",
+    actions: [{ action: 'retry', label: 'RETRY' }],
+  },
+  unknown: {
+    hint: '',
+    actions: [],
+  },
+};
+
+/**
+ * Error banner with a remediation hint and action matching the kind of failure.
+ */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onUpdateKey, onEditModels, onRetry }) => {
+  const message = typeof error === 'string' ? error : error.message;
+  const remediation = typeof error === 'string' ? undefined : REMEDIATIONS[error.kind];
+  const handlers: Record<RemediationAction, (() => void) | undefined> = {
+    'update-key': onUpdateKey,
+    'edit-models': onEditModels,
+    retry: onRetry,
+  };
+  const actions = remediation?.actions.filter(a => handlers[a.action]) || [];
+
+  return (
+    <div className="mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm flex gap-3 items-center">
+      <div className="bg-red-500/20 p-1.5 rounded-lg font-bold">!</div>
+      <div className="flex-grow">
+        {message}
+        {remediation?.hint && <p className="mt-1 text-xs text-red-400/70">{remediation.hint}</p>}
+      </div>
+      {actions.map(a => (
+        <button key={a.action} onClick={handlers[a.action]} className="text-xs underline font-bold hover:text-white whitespace-nowrap">
+          {a.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { Plus, ArrowUp, ArrowDown, Trash2, Languages } from 'lucide-react';
+import { GoalDefinition, RefinementSettings, WeightedGoal } from '../types.ts';
+import { DEFAULT_GOAL_WEIGHT, GOAL_WEIGHTS, REWRITE_INTENSITIES, TARGET_LENGTHS, findGoal } from '../services/goalRegistry.ts';
+
+interface GoalComposerProps {
+  goals: GoalDefinition[];
+  settings: RefinementSettings;
+  onChange: (settings: RefinementSettings) => void;
+  onManageGoals: () => void;
+}
+
+const LANGUAGE_SUGGESTIONS = ['English', 'Spanish', 'French', 'German', 'Portuguese', 'Italian', 'Dutch', 'Japanese', 'Korean', 'Chinese (Simplified)', 'Hindi', 'Arabic'];
+
+/**
+ * Picks one or more refinement goals, in priority order and with weights, plus
+ * the rewrite intensity, target length and output language.
+ */
+const GoalComposer: React.FC<GoalComposerProps> = ({ goals, settings, onChange, onManageGoals }) => {
+  const isComposed = settings.goals.length > 1;
+
+  const setGoals = (next: WeightedGoal[]) => onChange({ ...settings, goals: next });
+
+  // A plain click picks a single goal; Shift, Ctrl or Cmd adds or removes it from the mix.
+  const handleGoalClick = (e: React.MouseEvent, id: string) => {
+    if (!(e.shiftKey || e.ctrlKey || e.metaKey)) {
+      setGoals([{ goalId: id, weight: DEFAULT_GOAL_WEIGHT }]);
+      return;
+    }
+    const isSelected = settings.goals.some(g => g.goalId === id);
+    if (isSelected && settings.goals.length === 1) return;
+    setGoals(isSelected ? settings.goals.filter(g => g.goalId !== id) : [...settings.goals, { goalId: id, weight: DEFAULT_GOAL_WEIGHT }]);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...settings.goals];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setGoals(next);
+  };
+
+  const chipClass = (active: boolean) => `px-3 py-1 rounded-lg text-[10px] font-bold transition-all ${
+    active ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'
+  }`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {goals.map((g) => {
+          const position = settings.goals.findIndex(w => w.goalId === g.id);
+          return (
+            <button
+              key={g.id}
+              onClick={(e) => handleGoalClick(e, g.id)}
+              title={`${g.instruction}\n\nShift-click to combine with other goals.`}
+              className={`px-4 py-2 rounded-full text-xs font-semibold transition-all duration-300 border ${
+                position >= 0
+                  ? 'bg-gradient-to-r from-purple-600/30 to-red-600/30 border-red-500/50 text-red-200 shadow-lg shadow-red-500/10'
+                  : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+              } ${g.builtIn ? '' : 'border-dashed'}`}
+            >
+              {isComposed && position >= 0 && <span className="mr-1 text-red-400">{position + 1}.</span>}
+              {g.name}
+            </button>
+          );
+        })}
+        <button
+          onClick={onManageGoals}
+          className="px-4 py-2 rounded-full text-xs font-semibold transition-all duration-300 border border-dashed border-white/10 text-gray-500 hover:text-white hover:border-white/20 flex items-center gap-1"
+          title="Manage custom goals"
+        >
+          <Plus className="w-3 h-3" />
+          Custom
+        </button>
+      </div>
+
+      {isComposed ? (
+        <div className="space-y-1.5">
+          {settings.goals.map((weighted, index) => (
+            <div key={weighted.goalId} className="flex items-center gap-2 p-2 rounded-xl bg-white/5 border border-white/5 text-xs">
+              <span className="w-4 text-center text-red-400 font-bold">{index + 1}</span>
+              <span className="flex-grow min-w-0 truncate text-gray-300 font-semibold">{findGoal(goals, weighted.goalId).name}</span>
+              <div className="flex gap-0.5 shrink-0">
+                {GOAL_WEIGHTS.map(w => (
+                  <button
+                    key={w.value}
+                    onClick={() => setGoals(settings.goals.map((g, i) => (i === index ? { ...g, weight: w.value } : g)))}
+                    className={chipClass(weighted.weight === w.value)}
+                  >
+                    {w.name}
+                  </button>
+                ))}
+              </div>
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-white disabled:opacity-20 transition-colors" title="Higher priority">
+                <ArrowUp className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => move(index, 1)} disabled={index === settings.goals.length - 1} className="text-gray-500 hover:text-white disabled:opacity-20 transition-colors" title="Lower priority">
+                <ArrowDown className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => setGoals(settings.goals.filter((_, i) => i !== index))} className="text-gray-500 hover:text-red-400 transition-colors" title="Remove from the mix">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <p className="text-[10px] text-gray-600">Goals higher in the list win where they conflict.</p>
+        </div>
+      ) : (
+        <p className="text-[10px] text-gray-600">Shift-click a second goal to combine them.</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs">
+        <div>
+          <div className="text-[10px] text-gray-500 font-bold uppercase tracking-wider mb-1.5">Intensity</div>
+          <div className="flex gap-0.5 p-0.5 rounded-xl bg-white/5 border border-white/5 w-fit">
+            {REWRITE_INTENSITIES.map(option => (
+              <button
+                key={option.id}
+                onClick={() => onChange({ ...settings, intensity: option.id })}
+                title={option.desc}
+                className={chipClass(settings.intensity === option.id)}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <div className="text-[10px] text-gray-500 font-bold uppercase tracking-wider mb-1.5">Length</div>
+          <div className="flex gap-0.5 p-0.5 rounded-xl bg-white/5 border border-white/5 w-fit">
+            {TARGET_LENGTHS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => onChange({ ...settings, length: option.id })}
+                className={chipClass(settings.length === option.id)}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="sm:col-span-2 flex items-center gap-2">
+          <Languages className="w-3.5 h-3.5 text-gray-500 shrink-0" />
+          <span className="text-[10px] text-gray-500 font-bold uppercase tracking-wider shrink-0">Language</span>
+          <input
+            value={settings.language}
+            onChange={(e) => onChange({ ...settings, language: e.target.value })}
+            list="refinement-languages"
+            placeholder="Same as the raw prompt"
+            className="flex-grow bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white outline-none focus:border-red-500/50 transition-colors"
+          />
+          <datalist id="refinement-languages">
+            {LANGUAGE_SUGGESTIONS.map(language => <option key={language} value={language} />)}
+          </datalist>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default GoalComposer;
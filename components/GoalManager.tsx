@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Settings2, Trash2, Pencil, Plus } from 'lucide-react';
+import { GoalDefinition } from '../types.ts';
+import { DEFAULT_TEMPERATURE, DEFAULT_TOP_P, createCustomGoalId } from '../services/goalRegistry.ts';
+
+interface GoalManagerProps {
+  customGoals: GoalDefinition[];
+  onSave: (goal: GoalDefinition) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const emptyDraft = (): GoalDefinition => ({
+  id: createCustomGoalId(),
+  name: '',
+  instruction: '',
+  basePrinciples: '',
+  temperature: DEFAULT_TEMPERATURE,
+  topP: DEFAULT_TOP_P,
+  builtIn: false,
+});
+
+/**
+ * Modal for creating, editing and deleting user-defined refinement goals.
+ */
+const GoalManager: React.FC<GoalManagerProps> = ({ customGoals, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<GoalDefinition>(emptyDraft);
+  const isEditing = customGoals.some(g => g.id === draft.id);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim() || !draft.instruction.trim()) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      instruction: draft.instruction.trim(),
+      basePrinciples: draft.basePrinciples?.trim() || undefined,
+    });
+    setDraft(emptyDraft());
+  };
+
+  const handleDelete = (goal: GoalDefinition) => {
+    if (confirm(`Delete the goal "${goal.name}"?`)) {
+      onDelete(goal.id);
+      if (draft.id === goal.id) setDraft(emptyDraft());
+    }
+  };
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-white outline-none focus:border-red-500/50 transition-colors text-sm";
+  const labelClass = "block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 transition-all duration-300">
+      <div className="bg-[#0a0a0a] border border-white/10 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 shadow-2xl relative animate-in fade-in zoom-in duration-300">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-white"
+        >
+          <Trash2 className="w-5 h-5 rotate-45" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <Settings2 className="w-5 h-5 text-red-500" />
+          Custom Goals
+        </h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Define house goals alongside the built-in ones. Custom goals are stored locally in your browser.
+        </p>
+
+        {customGoals.length > 0 && (
+          <div className="space-y-2 mb-6">
+            {customGoals.map((g) => (
+              <div
+                key={g.id}
+                className={`flex items-center gap-3 p-3 rounded-xl border transition-all ${
+                  draft.id === g.id ? 'bg-purple-600/10 border-purple-500/40' : 'bg-white/5 border-white/10'
+                }`}
+              >
+                <div className="flex-grow min-w-0">
+                  <div className="text-sm font-semibold text-gray-200">{g.name}</div>
+                  <div className="text-xs text-gray-500 line-clamp-1">{g.instruction}</div>
+                </div>
+                <button
+                  onClick={() => setDraft({ ...g, basePrinciples: g.basePrinciples || '' })}
+                  className="text-gray-500 hover:text-white transition-colors p-1"
+                  title="Edit goal"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(g)}
+                  className="text-gray-500 hover:text-red-400 transition-colors p-1"
+                  title="Delete goal"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Internal support bot"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Goal Instruction</label>
+            <textarea
+              value={draft.instruction}
+              onChange={(e) => setDraft({ ...draft, instruction: e.target.value })}
+              placeholder="Describe how the refiner should shape prompts for this goal."
+              className={`${inputClass} h-24 resize-none`}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Base Principles Override (optional)</label>
+            <textarea
+              value={draft.basePrinciples}
+              onChange={(e) => setDraft({ ...draft, basePrinciples: e.target.value })}
+              placeholder="Leave empty to use the default five principles."
+              className={`${inputClass} h-24 resize-none`}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Temperature: {draft.temperature.toFixed(2)}</label>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.05}
+                value={draft.temperature}
+                onChange={(e) => setDraft({ ...draft, temperature: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Top P: {draft.topP.toFixed(2)}</label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={draft.topP}
+                onChange={(e) => setDraft({ ...draft, topP: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            {isEditing && (
+              <button
+                type="button"
+                onClick={() => setDraft(emptyDraft())}
+                className="px-4 py-2 rounded-xl text-xs font-bold text-gray-400 hover:bg-white/5 transition-colors"
+              >
+                Cancel Edit
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={!draft.name.trim() || !draft.instruction.trim()}
+              className="flex-1 flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 text-white font-bold py-2 rounded-xl text-sm hover:shadow-lg hover:shadow-red-500/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isEditing ? <Pencil className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+              {isEditing ? 'Update Goal' : 'Add Goal'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default GoalManager;
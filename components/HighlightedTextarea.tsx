@@ -0,0 +1,63 @@
+import React, { useRef } from 'react';
+
+export interface TextHighlight {
+  start: number;
+  end: number;
+  className: string;
+}
+
+interface HighlightedTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  highlights: TextHighlight[];
+  placeholder?: string;
+  /** Size and typography, shared by the textarea and the highlight layer so they line up. */
+  className: string;
+  /** For selecting text from outside, such as jumping to an annotated span. */
+  textareaRef?: React.Ref<HTMLTextAreaElement>;
+}
+
+/**
+ * A textarea that marks ranges of its text. The marks are drawn on a mirrored
+ * layer behind the transparent textarea, which keeps native editing intact.
+ */
+const HighlightedTextarea: React.FC<HighlightedTextareaProps> = ({ value, onChange, highlights, placeholder, className, textareaRef }) => {
+  const mirrorRef = useRef<HTMLDivElement>(null);
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  [...highlights].sort((a, b) => a.start - b.start).forEach((h, index) => {
+    if (h.start < cursor) return;
+    segments.push(value.slice(cursor, h.start));
+    segments.push(<mark key={index} className={`${h.className} text-transparent rounded-sm`}>{value.slice(h.start, h.end)}</mark>);
+    cursor = h.end;
+  });
+  // The trailing newline keeps the layer as tall as the textarea when the text ends with a line break.
+  segments.push(`${value.slice(cursor)}\n`);
+
+  return (
+    <div className="relative">
+      {highlights.length > 0 && (
+        <div
+          ref={mirrorRef}
+          aria-hidden
+          className={`${className} absolute inset-0 overflow-hidden whitespace-pre-wrap break-words text-transparent pointer-events-none`}
+        >
+          {segments}
+        </div>
+      )}
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (mirrorRef.current) mirrorRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        placeholder={placeholder}
+        className={`${className} relative block bg-transparent text-gray-100 placeholder:text-gray-600 resize-none outline-none`}
+      />
+    </div>
+  );
+};
+
+export default HighlightedTextarea;
@@ -0,0 +1,325 @@
+import React, { useMemo, useState } from 'react';
+import { History, Trash2, Search, Star, ChevronRight, SlidersHorizontal, X, ArrowDownUp, ListChecks } from 'lucide-react';
+import { GoalDefinition, ModelOption, RefinementHistory } from '../types.ts';
+import { EMPTY_HISTORY_FILTER, HistoryFilter, collectTags, filterHistory } from '../utils/historySearch.ts';
+
+interface HistoryLibraryProps {
+  history: RefinementHistory[];
+  isLoaded: boolean;
+  goals: GoalDefinition[];
+  models: ModelOption[];
+  onRestore: (entry: RefinementHistory) => void;
+  onUpdate: (entry: RefinementHistory) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  /** Opens import/export with the currently selected entries (empty when not selecting). */
+  onOpenTransfer: (selected: RefinementHistory[]) => void;
+}
+
+const PAGE_SIZE = 25;
+
+/**
+ * Searchable prompt library with filters, favorites, tags and per-entry notes.
+ */
+const HistoryLibrary: React.FC<HistoryLibraryProps> = ({
+  history,
+  isLoaded,
+  goals,
+  models,
+  onRestore,
+  onUpdate,
+  onDelete,
+  onClear,
+  onOpenTransfer,
+}) => {
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [showFilters, setShowFilters] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const results = useMemo(() => filterHistory(history, filter), [history, filter]);
+  const tags = useMemo(() => collectTags(history), [history]);
+  const isFiltered = JSON.stringify(filter) !== JSON.stringify(EMPTY_HISTORY_FILTER);
+
+  const updateFilter = (patch: Partial<HistoryFilter>) => {
+    setFilter({ ...filter, ...patch });
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const addTag = (entry: RefinementHistory) => {
+    const tag = tagDraft.trim().toLowerCase();
+    if (!tag || entry.tags?.includes(tag)) return;
+    onUpdate({ ...entry, tags: [...(entry.tags || []), tag] });
+    setTagDraft('');
+  };
+
+  const removeTag = (entry: RefinementHistory, tag: string) => {
+    onUpdate({ ...entry, tags: (entry.tags || []).filter(t => t !== tag) });
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const handleDelete = (entry: RefinementHistory) => {
+    if (confirm("Delete this entry from the library?")) {
+      onDelete(entry.id);
+    }
+  };
+
+  const selectClass = "bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-300 outline-none focus:border-red-500/50";
+
+  return (
+    <section className="glass rounded-3xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 font-bold text-gray-200 uppercase tracking-widest text-xs">
+          <History className="w-4 h-4 text-red-500" />
+          Library
+          {history.length > 0 && <span className="text-gray-600 normal-case tracking-normal font-medium">({history.length})</span>}
+        </h3>
+        <div className="flex items-center gap-3">
+          {history.length > 0 && (
+            <button
+              onClick={() => {
+                setIsSelecting(!isSelecting);
+                setSelectedIds(new Set());
+              }}
+              className={`text-xs flex items-center gap-1 transition-colors ${isSelecting ? 'text-purple-300' : 'text-gray-500 hover:text-white'}`}
+            >
+              <ListChecks className="w-3 h-3" />
+              {isSelecting ? 'Done' : 'Select'}
+            </button>
+          )}
+          <button
+            onClick={() => onOpenTransfer(isSelecting ? history.filter(h => selectedIds.has(h.id)) : [])}
+            className="text-xs text-gray-500 hover:text-white flex items-center gap-1 transition-colors"
+          >
+            <ArrowDownUp className="w-3 h-3" />
+            {isSelecting ? `Export (${selectedIds.size})` : 'Import/Export'}
+          </button>
+          {history.length > 0 && (
+            <button
+              onClick={onClear}
+              className="text-xs text-gray-500 hover:text-red-400 flex items-center gap-1 transition-colors"
+            >
+              <Trash2 className="w-3 h-3" />
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {history.length > 0 && (
+        <div className="mb-4 space-y-3">
+          <div className="flex gap-2">
+            <div className="flex-grow flex items-center gap-2 bg-white/5 border border-white/10 rounded-xl px-3 focus-within:border-red-500/50 transition-colors">
+              <Search className="w-3 h-3 text-gray-500" />
+              <input
+                value={filter.query}
+                onChange={(e) => updateFilter({ query: e.target.value })}
+                placeholder="Search prompts, notes and tags..."
+                className="flex-grow bg-transparent py-2 text-sm text-white placeholder:text-gray-600 outline-none"
+              />
+            </div>
+            <button
+              onClick={() => updateFilter({ favoritesOnly: !filter.favoritesOnly })}
+              className={`px-3 rounded-xl border transition-all ${filter.favoritesOnly ? 'border-yellow-500/40 bg-yellow-500/10 text-yellow-400' : 'border-white/10 bg-white/5 text-gray-500 hover:text-white'}`}
+              title="Favorites only"
+            >
+              <Star className={`w-4 h-4 ${filter.favoritesOnly ? 'fill-current' : ''}`} />
+            </button>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`px-3 rounded-xl border transition-all ${showFilters ? 'border-purple-500/40 bg-purple-500/10 text-purple-300' : 'border-white/10 bg-white/5 text-gray-500 hover:text-white'}`}
+              title="Filters"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              <select value={filter.goal} onChange={(e) => updateFilter({ goal: e.target.value })} className={selectClass}>
+                <option value="">All goals</option>
+                {goals.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+              </select>
+              <select value={filter.model} onChange={(e) => updateFilter({ model: e.target.value })} className={selectClass}>
+                <option value="">All models</option>
+                {models.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+              </select>
+              <select value={filter.tag} onChange={(e) => updateFilter({ tag: e.target.value })} className={selectClass}>
+                <option value="">All tags</option>
+                {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+              </select>
+              <input type="date" value={filter.from} onChange={(e) => updateFilter({ from: e.target.value })} className={selectClass} title="From" />
+              <input type="date" value={filter.to} onChange={(e) => updateFilter({ to: e.target.value })} className={selectClass} title="To" />
+              <button
+                onClick={() => updateFilter(EMPTY_HISTORY_FILTER)}
+                disabled={!isFiltered}
+                className="text-xs text-gray-500 hover:text-white disabled:opacity-30 transition-colors"
+              >
+                Reset filters
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {!isLoaded ? (
+        <div className="space-y-3">
+          <div className="h-14 rounded-xl shimmer bg-white/5" />
+          <div className="h-14 rounded-xl shimmer bg-white/5" />
+        </div>
+      ) : history.length === 0 ? (
+        <div className="text-center py-10 text-gray-600 border-2 border-dashed border-white/5 rounded-2xl">
+          <p className="text-xs">No recent optimizations found.</p>
+        </div>
+      ) : results.length === 0 ? (
+        <div className="text-center py-10 text-gray-600 border-2 border-dashed border-white/5 rounded-2xl">
+          <p className="text-xs">No entries match your search.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {results.slice(0, visibleCount).map((item) => {
+            const isExpanded = expandedId === item.id;
+            return (
+              <div
+                key={item.id}
+                className="rounded-xl bg-white/5 border border-white/10 hover:border-red-500/40 hover:bg-white/[0.08] transition-all group"
+              >
+                <div className="flex items-start gap-2 p-4">
+                  {isSelecting && (
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(item.id)}
+                      onChange={() => toggleSelected(item.id)}
+                      className="mt-1 accent-purple-500"
+                      aria-label="Select entry"
+                    />
+                  )}
+                  <button
+                    onClick={() => (isSelecting ? toggleSelected(item.id) : onRestore(item))}
+                    className="flex-grow min-w-0 text-left"
+                  >
+                    <div className="flex justify-between items-start mb-2">
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <span className="text-[9px] px-2 py-0.5 rounded-md bg-red-500/10 text-red-400 font-bold uppercase tracking-wider">
+                          {item.goal}
+                        </span>
+                        {(item.settings?.goals.length || 0) > 1 && (
+                          <span className="text-[9px] px-2 py-0.5 rounded-md bg-red-500/10 text-red-400 font-bold uppercase tracking-wider">
+                            +{item.settings!.goals.length - 1} goal{item.settings!.goals.length > 2 ? 's' : ''}
+                          </span>
+                        )}
+                        {item.status && item.status !== 'complete' && (
+                          <span className="text-[9px] px-2 py-0.5 rounded-md bg-yellow-500/10 text-yellow-400 font-bold uppercase tracking-wider">
+                            {item.status === 'aborted' ? 'Stopped' : 'Partial'}
+                          </span>
+                        )}
+                        {(item.revisions?.length || 0) > 1 && (
+                          <span className="text-[9px] px-2 py-0.5 rounded-md bg-purple-500/10 text-purple-400 font-bold uppercase tracking-wider">
+                            {item.revisions!.length} versions
+                          </span>
+                        )}
+                        {item.tags?.map(tag => (
+                          <span key={tag} className="text-[9px] px-2 py-0.5 rounded-md bg-blue-500/10 text-blue-400 font-bold">
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
+                      <span className="text-[9px] text-gray-600 shrink-0 ml-2">
+                        {new Date(item.timestamp).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-400 line-clamp-1 group-hover:text-gray-300">
+                      {item.original}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => onUpdate({ ...item, favorite: !item.favorite })}
+                    className={`p-1 transition-colors ${item.favorite ? 'text-yellow-400' : 'text-gray-600 hover:text-yellow-400'}`}
+                    title={item.favorite ? 'Unpin' : 'Pin as favorite'}
+                  >
+                    <Star className={`w-4 h-4 ${item.favorite ? 'fill-current' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setExpandedId(isExpanded ? null : item.id);
+                      setTagDraft('');
+                    }}
+                    className="p-1 text-gray-600 hover:text-white transition-colors"
+                    title="Tags and notes"
+                  >
+                    <ChevronRight className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                  </button>
+                </div>
+
+                {isExpanded && (
+                  <div className="px-4 pb-4 space-y-3 border-t border-white/5 pt-3">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {item.tags?.map(tag => (
+                        <span key={tag} className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded-md bg-blue-500/10 text-blue-400 font-bold">
+                          #{tag}
+                          <button onClick={() => removeTag(item, tag)} className="hover:text-white" title="Remove tag">
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                      <form
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          addTag(item);
+                        }}
+                      >
+                        <input
+                          value={tagDraft}
+                          onChange={(e) => setTagDraft(e.target.value)}
+                          placeholder="Add tag..."
+                          className="bg-transparent text-xs text-gray-300 placeholder:text-gray-600 outline-none w-24"
+                        />
+                      </form>
+                    </div>
+                    <textarea
+                      defaultValue={item.notes || ''}
+                      onBlur={(e) => {
+                        if (e.target.value !== (item.notes || '')) {
+                          onUpdate({ ...item, notes: e.target.value });
+                        }
+                      }}
+                      placeholder="Notes..."
+                      className="w-full h-20 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-gray-300 placeholder:text-gray-600 outline-none focus:border-red-500/50 transition-colors resize-y"
+                    />
+                    <div className="flex justify-end">
+                      <button
+                        onClick={() => handleDelete(item)}
+                        className="text-xs text-gray-500 hover:text-red-400 flex items-center gap-1 transition-colors"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        Delete entry
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {results.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+              className="w-full py-2 text-xs text-gray-500 hover:text-white transition-colors"
+            >
+              Show more ({results.length - visibleCount} remaining)
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HistoryLibrary;
@@ -0,0 +1,438 @@
+import React, { useState } from 'react';
+import { Key, Lock, Unlock, Trash2, Plus, Pencil, Check, Loader2, ShieldCheck } from 'lucide-react';
+import { ProviderConfig } from '../types.ts';
+import {
+  AUTO_LOCK_OPTIONS,
+  KeyProfile,
+  KeyVault,
+  UnlockedVault,
+  WrongPassphraseError,
+  clearLegacyApiKey,
+  createKeyVault,
+  createProfileId,
+  deleteKeyProfile,
+  loadLegacyApiKey,
+  saveKeyProfile,
+  saveKeyVault,
+  unlockKeyVault
+} from '../services/keyVault.ts';
+import { GEMINI_PROVIDER_ID, clearLegacyProviderKeys, createProvider, loadLegacyProviderKeys } from '../services/providerCatalog.ts';
+import { testProviderKey } from '../services/geminiService.ts';
+
+interface KeyVaultDialogProps {
+  vault: KeyVault | null;
+  /** Null while the vault is locked. */
+  unlocked: UnlockedVault | null;
+  providers: ProviderConfig[];
+  onChange: (vault: KeyVault | null, unlocked: UnlockedVault | null) => void;
+  /** Switches to a profile, selecting its provider and default model. */
+  onActivate: (profile: KeyProfile) => void;
+  onLock: () => void;
+  onClose: () => void;
+}
+
+interface ProfileDraft {
+  id: string;
+  name: string;
+  providerId: string;
+  model: string;
+  /** Empty keeps the saved key of an existing profile. */
+  apiKey: string;
+  isNew: boolean;
+}
+
+type TestState =
+  | { status: 'idle' | 'testing' | 'passed' }
+  | { status: 'failed'; message: string };
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Sets up, unlocks and manages the encrypted key profiles. Each profile holds
+ * one API key together with the provider and default model it is used with.
+ */
+const KeyVaultDialog: React.FC<KeyVaultDialogProps> = ({ vault, unlocked, providers, onChange, onActivate, onLock, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+  const legacyKey = vault ? '' : loadLegacyApiKey();
+
+  const providerOf = (providerId: string) => providers.find(p => p.id === providerId);
+  // Keys that earlier versions saved with OpenAI-compatible providers, in plain text.
+  const legacyProviderKeys = Object.entries(loadLegacyProviderKeys()).filter(([providerId]) => providerOf(providerId));
+
+  // Moves plain-text keys from earlier versions into encrypted profiles once the vault is open.
+  const importLegacyKeys = async (opened: { vault: KeyVault; unlocked: UnlockedVault }) => {
+    let result = opened;
+    if (legacyKey) {
+      const gemini = providerOf(GEMINI_PROVIDER_ID)!;
+      const profile = { id: createProfileId(), name: 'Gemini', providerId: gemini.id, model: gemini.models[0].id };
+      result = await saveKeyProfile(result.vault, result.unlocked, profile, legacyKey);
+      result.vault.activeProfileId = profile.id;
+      clearLegacyApiKey();
+    }
+    for (const [providerId, apiKey] of legacyProviderKeys) {
+      const provider = providerOf(providerId)!;
+      const profile = { id: createProfileId(), name: provider.name, providerId, model: provider.models[0].id };
+      result = await saveKeyProfile(result.vault, result.unlocked, profile, apiKey);
+    }
+    clearLegacyProviderKeys();
+    return result;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError("The passphrases do not match.");
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      const created = await importLegacyKeys(await createKeyVault(passphrase));
+      onChange(created.vault, created.unlocked);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err: any) {
+      setError(err.message || "Could not set up encryption in this browser.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!vault) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const opened = await importLegacyKeys({ vault, unlocked: await unlockKeyVault(vault, passphrase) });
+      onChange(opened.vault, opened.unlocked);
+      setPassphrase('');
+    } catch (err: any) {
+      setError(err instanceof WrongPassphraseError ? err.message : "Could not decrypt your keys.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!confirm("Delete every saved key profile? You will need to enter your API keys again.")) return;
+    onChange(null, null);
+    setPassphrase('');
+    setError(null);
+  };
+
+  const editDraft = (patch: Partial<ProfileDraft>) => {
+    setDraft(current => current && { ...current, ...patch });
+    // A different key, provider or model has not been tested yet.
+    if ('apiKey' in patch || 'providerId' in patch || 'model' in patch) setTest({ status: 'idle' });
+  };
+
+  const startNewProfile = () => {
+    const provider = providers[0];
+    setDraft({ id: createProfileId(), name: '', providerId: provider.id, model: provider.models[0].id, apiKey: '', isNew: true });
+    setTest({ status: 'idle' });
+    setError(null);
+  };
+
+  const startEditing = (profile: KeyProfile) => {
+    setDraft({ id: profile.id, name: profile.name, providerId: profile.providerId, model: profile.model, apiKey: '', isNew: false });
+    setTest({ status: 'idle' });
+    setError(null);
+  };
+
+  const draftKey = draft ? draft.apiKey.trim() || (!draft.isNew && unlocked?.keys[draft.id]) || '' : '';
+
+  const runTest = async () => {
+    const provider = draft && providerOf(draft.providerId);
+    const llm = provider && createProvider(provider, draftKey);
+    if (!draft || !llm || !draftKey) {
+      setTest({ status: 'failed', message: "Enter a key to test." });
+      return false;
+    }
+    setTest({ status: 'testing' });
+    try {
+      await testProviderKey(llm, draft.model);
+      setTest({ status: 'passed' });
+      return true;
+    } catch (err: any) {
+      setTest({ status: 'failed', message: err.message || "The key did not work." });
+      return false;
+    }
+  };
+
+  // Saving tests the key first; after a failed test a second click saves it anyway.
+  const handleSaveProfile = async () => {
+    if (!vault || !unlocked || !draft || !draft.name.trim() || !draftKey) return;
+    if (test.status === 'idle' && !(await runTest())) return;
+    const profile = { id: draft.id, name: draft.name.trim(), providerId: draft.providerId, model: draft.model };
+    setIsBusy(true);
+    setError(null);
+    try {
+      const saved = await saveKeyProfile(vault, unlocked, profile, draftKey);
+      // Written here as well as by the owner so a full or blocked storage is reported before the draft closes.
+      saveKeyVault(saved.vault);
+      onChange(saved.vault, saved.unlocked);
+      // The first profile becomes active, and edits to the active one apply right away.
+      if (!vault.activeProfileId || vault.activeProfileId === profile.id) {
+        onActivate(saved.vault.profiles.find(p => p.id === profile.id)!);
+      }
+      setDraft(null);
+    } catch (err: any) {
+      setError(err.message || "Could not save the key profile.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDeleteProfile = (profile: KeyProfile) => {
+    if (!vault || !confirm(`Delete the key profile "${profile.name}"?`)) return;
+    const next = deleteKeyProfile(vault, unlocked, profile.id);
+    onChange(next.vault, next.unlocked);
+    if (draft?.id === profile.id) setDraft(null);
+  };
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-white outline-none focus:border-red-500/50 transition-colors text-sm";
+  const labelClass = "block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2";
+  const primaryClass = "flex-1 bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 text-white font-bold py-2 rounded-xl text-sm hover:shadow-lg hover:shadow-red-500/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed";
+  const draftProvider = draft ? providerOf(draft.providerId) : undefined;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 transition-all duration-300">
+      <div className="bg-[#0a0a0a] border border-white/10 rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 shadow-2xl relative animate-in fade-in zoom-in duration-300">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-white">
+          <Trash2 className="w-5 h-5 rotate-45" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <Key className="w-5 h-5 text-red-500" />
+          API Keys
+        </h2>
+
+        {!vault && (
+          <form onSubmit={handleCreate} className="space-y-4">
+            <p className="text-gray-400 text-sm">
+              Choose a passphrase to encrypt your API keys in this browser. It is never stored, so you will enter it to unlock your keys after a reload or an auto-lock.
+              {legacyKey && ' Your saved Gemini key will be moved into an encrypted profile.'}
+              {legacyProviderKeys.length > 0 && ' Keys saved with your providers will be moved into encrypted profiles too.'}
+            </p>
+            <div>
+              <label className={labelClass}>Passphrase</label>
+              <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className={inputClass} autoFocus />
+            </div>
+            <div>
+              <label className={labelClass}>Repeat Passphrase</label>
+              <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} className={inputClass} />
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            <div className="flex pt-2">
+              <button type="submit" disabled={isBusy || !passphrase} className={primaryClass}>
+                {isBusy ? 'Encrypting…' : 'Encrypt My Keys'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {vault && !unlocked && (
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <p className="text-gray-400 text-sm">
+              Your {vault.profiles.length === 1 ? 'key is' : 'keys are'} locked. Enter your passphrase to unlock {vault.profiles.length === 1 ? 'it' : 'them'}.
+            </p>
+            <div>
+              <label className={labelClass}>Passphrase</label>
+              <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className={inputClass} autoFocus />
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={handleReset}
+                className="px-4 py-2 rounded-xl text-xs font-bold text-red-400 hover:bg-red-500/10 transition-colors"
+                title="Forgot the passphrase? Start over without your saved keys"
+              >
+                Reset Keys
+              </button>
+              <button type="submit" disabled={isBusy || !passphrase} className={`${primaryClass} flex items-center justify-center gap-2`}>
+                <Unlock className="w-4 h-4" />
+                {isBusy ? 'Unlocking…' : 'Unlock'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {vault && unlocked && (
+          <div className="space-y-4">
+            <p className="text-gray-400 text-sm">
+              Keys are encrypted with your passphrase. Switch profiles to change the key, provider and default model in one step.
+            </p>
+
+            <div className="space-y-2">
+              {vault.profiles.map(profile => {
+                const provider = providerOf(profile.providerId);
+                const isActive = profile.id === vault.activeProfileId;
+                return (
+                  <div
+                    key={profile.id}
+                    className={`flex items-center gap-3 p-3 rounded-xl border ${isActive ? 'border-purple-500/50 bg-purple-600/10' : 'border-white/10 bg-white/5'}`}
+                  >
+                    <div className="flex-grow min-w-0">
+                      <div className="text-sm font-semibold text-white truncate">{profile.name}</div>
+                      <div className="text-[11px] text-gray-500 truncate">
+                        {provider?.name || 'Deleted provider'} · {provider?.models.find(m => m.id === profile.model)?.name || profile.model}
+                      </div>
+                    </div>
+                    {isActive ? (
+                      <span className="flex items-center gap-1 text-[10px] font-bold text-purple-300 shrink-0">
+                        <Check className="w-3 h-3" />
+                        ACTIVE
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => onActivate(profile)}
+                        disabled={!provider}
+                        className="px-2 py-1 rounded-lg text-[10px] font-bold bg-white/10 text-white hover:bg-white/20 transition-all shrink-0 disabled:opacity-50"
+                      >
+                        USE
+                      </button>
+                    )}
+                    <button onClick={() => startEditing(profile)} className="text-gray-500 hover:text-white transition-colors shrink-0" title="Edit profile">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDeleteProfile(profile)} className="text-gray-500 hover:text-red-400 transition-colors shrink-0" title="Delete profile">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+              {!draft && (
+                <button
+                  onClick={startNewProfile}
+                  className="w-full py-2 rounded-xl text-xs font-semibold border border-dashed border-white/10 text-gray-500 hover:text-white hover:border-white/20 flex items-center justify-center gap-1 transition-all"
+                >
+                  <Plus className="w-3 h-3" />
+                  Add Key Profile
+                </button>
+              )}
+            </div>
+
+            {draft && (
+              <div className="p-4 rounded-xl border border-white/10 space-y-3">
+                <div>
+                  <label className={labelClass}>Profile Name</label>
+                  <input
+                    value={draft.name}
+                    onChange={(e) => editDraft({ name: e.target.value })}
+                    placeholder="Personal free tier"
+                    className={inputClass}
+                    autoFocus
+                  />
+                </div>
+                <div className="flex gap-3">
+                  <div className="flex-1">
+                    <label className={labelClass}>Provider</label>
+                    <select
+                      value={draft.providerId}
+                      onChange={(e) => editDraft({ providerId: e.target.value, model: providerOf(e.target.value)!.models[0].id })}
+                      className={inputClass}
+                    >
+                      {providers.map(p => <option key={p.id} value={p.id} className="bg-[#0a0a0a]">{p.name}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex-1">
+                    <label className={labelClass}>Default Model</label>
+                    <select value={draft.model} onChange={(e) => editDraft({ model: e.target.value })} className={inputClass}>
+                      {draftProvider?.models.map(m => <option key={m.id} value={m.id} className="bg-[#0a0a0a]">{m.name}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>API Key</label>
+                  <input
+                    type="password"
+                    value={draft.apiKey}
+                    onChange={(e) => editDraft({ apiKey: e.target.value })}
+                    placeholder={draft.isNew ? (draftProvider?.kind === 'gemini' ? 'AIzaSy...' : 'sk-...') : 'Leave empty to keep the saved key'}
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+
+                {test.status === 'passed' && (
+                  <p className="text-xs text-green-400 flex items-center gap-1"><ShieldCheck className="w-3.5 h-3.5" /> The key works with this model.</p>
+                )}
+                {test.status === 'failed' && <p className="text-xs text-red-400">{test.message}</p>}
+                {error && <p className="text-xs text-red-400">{error}</p>}
+
+                <div className="flex gap-3 pt-1">
+                  <button
+                    onClick={() => setDraft(null)}
+                    className="px-4 py-2 rounded-xl text-xs font-bold text-gray-400 hover:bg-white/5 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={runTest}
+                    disabled={test.status === 'testing' || !draftKey}
+                    className="px-4 py-2 rounded-xl text-xs font-bold bg-white/10 text-white hover:bg-white/20 transition-all disabled:opacity-50 flex items-center gap-1"
+                  >
+                    {test.status === 'testing' && <Loader2 className="w-3 h-3 animate-spin" />}
+                    Test Key
+                  </button>
+                  <button
+                    onClick={handleSaveProfile}
+                    disabled={isBusy || test.status === 'testing' || !draft.name.trim() || !draftKey}
+                    className={primaryClass}
+                  >
+                    {test.status === 'failed' ? 'Save Anyway' : 'Save Profile'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-3 pt-4 border-t border-white/5">
+              <label className="text-xs text-gray-500">Lock after</label>
+              <select
+                value={vault.autoLockMinutes}
+                onChange={(e) => onChange({ ...vault, autoLockMinutes: Number(e.target.value) }, unlocked)}
+                className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white outline-none"
+              >
+                {AUTO_LOCK_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes} className="bg-[#0a0a0a]">
+                    {minutes ? `${minutes} min idle` : 'Never'}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={onLock}
+                className="ml-auto flex items-center gap-1 px-4 py-2 rounded-xl text-xs font-bold text-gray-300 hover:bg-white/5 transition-colors"
+              >
+                <Lock className="w-3 h-3" />
+                Lock Now
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6 pt-4 border-t border-white/5 text-center">
+          <a
+            href="https://aistudio.google.com/app/apikey"
+            target="_blank"
+            rel="noreferrer"
+            className="text-xs text-blue-400 hover:text-blue-300 underline"
+          >
+            Get a free Gemini API key here
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyVaultDialog;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ShieldAlert, ShieldCheck, EyeOff, SlidersHorizontal } from 'lucide-react';
+import { LINT_RULES, LintAction, LintFinding, LintSettings, getLintRule, summarizeFindings } from '../services/preflightLint.ts';
+
+interface LintPanelProps {
+  findings: LintFinding[];
+  settings: LintSettings;
+  onChangeSettings: (settings: LintSettings) => void;
+  onRedact: () => void;
+  /** Placeholders currently in the prompt that will be restored in the result. */
+  redactedCount: number;
+}
+
+const ACTIONS: LintAction[] = ['block', 'warn', 'off'];
+
+/**
+ * Summarizes the pre-flight findings for the raw prompt, offers redaction and
+ * lets each rule be set to block, warn or off.
+ */
+const LintPanel: React.FC<LintPanelProps> = ({ findings, settings, onChangeSettings, onRedact, redactedCount }) => {
+  const [isConfiguring, setIsConfiguring] = useState(false);
+  const isBlocked = findings.some(f => f.action === 'block');
+  const redactable = findings.filter(f => getLintRule(f.ruleId).redactable);
+
+  const actionClass = (action: LintAction, active: boolean) => {
+    if (!active) return 'text-gray-500 hover:text-gray-300';
+    if (action === 'block') return 'bg-red-500/20 text-red-300';
+    if (action === 'warn') return 'bg-yellow-500/20 text-yellow-300';
+    return 'bg-white/10 text-white';
+  };
+
+  return (
+    <div className={`mt-3 p-3 rounded-xl border text-xs ${
+      isBlocked ? 'bg-red-500/5 border-red-500/20' : findings.length ? 'bg-yellow-500/5 border-yellow-500/20' : 'bg-white/5 border-white/5'
+    }`}>
+      <div className="flex items-center gap-2">
+        {findings.length ? (
+          <ShieldAlert className={`w-4 h-4 shrink-0 ${isBlocked ? 'text-red-400' : 'text-yellow-400'}`} />
+        ) : (
+          <ShieldCheck className="w-4 h-4 shrink-0 text-green-400" />
+        )}
+        <div className="flex-grow text-gray-300">
+          {findings.length > 0
+            ? `Found ${summarizeFindings(findings)}.`
+            : 'No sensitive data or injection phrases found.'}
+          {redactedCount > 0 && (
+            <span className="text-gray-500"> · {redactedCount} redacted value{redactedCount === 1 ? '' : 's'} will be restored in the result</span>
+          )}
+        </div>
+        {redactable.length > 0 && (
+          <button
+            onClick={onRedact}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold bg-white/10 text-white hover:bg-white/20 transition-all shrink-0"
+            title="Replace with placeholders before sending; the values are put back in the refined prompt"
+          >
+            <EyeOff className="w-3 h-3" />
+            REDACT
+          </button>
+        )}
+        <button
+          onClick={() => setIsConfiguring(!isConfiguring)}
+          className={`p-1 transition-colors shrink-0 ${isConfiguring ? 'text-white' : 'text-gray-500 hover:text-white'}`}
+          title="Configure pre-flight rules"
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {isConfiguring && (
+        <div className="mt-3 pt-3 border-t border-white/5 space-y-2">
+          {LINT_RULES.map(rule => (
+            <div key={rule.id} className="flex items-center gap-3">
+              <div className="flex-grow">
+                <div className="text-gray-300 font-semibold">{rule.name}</div>
+                <div className="text-[10px] text-gray-600">{rule.description}</div>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {ACTIONS.map(action => (
+                  <button
+                    key={action}
+                    onClick={() => onChangeSettings({ ...settings, [rule.id]: action })}
+                    className={`px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${actionClass(action, settings[rule.id] === action)}`}
+                  >
+                    {action}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LintPanel;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { CloudOff, Clock, CircleX, RotateCw, Trash2 } from 'lucide-react';
+import { GoalDefinition } from '../types.ts';
+import { OutboxItem } from '../services/outbox.ts';
+import { findGoal } from '../services/goalRegistry.ts';
+
+interface OutboxPanelProps {
+  items: OutboxItem[];
+  goals: GoalDefinition[];
+  isOnline: boolean;
+  /** Set while the keys are locked, which holds the queue back. */
+  isWaitingForKeys: boolean;
+  /** The item being sent right now. */
+  sendingId: string | null;
+  modelName: (id: string) => string;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+}
+
+/**
+ * Refinements requested while offline. They are sent one at a time, oldest
+ * first, once the connection is back.
+ */
+const OutboxPanel: React.FC<OutboxPanelProps> = ({ items, goals, isOnline, isWaitingForKeys, sendingId, modelName, onCancel, onRetry }) => {
+  const queuedCount = items.filter(i => i.status === 'queued').length;
+  const state = !isOnline
+    ? `Offline · ${queuedCount} waiting for a connection`
+    : isWaitingForKeys && queuedCount > 0
+      ? 'Unlock your keys to send the queue'
+      : sendingId
+        ? 'Sending...'
+        : `${queuedCount} queued`;
+
+  return (
+    <div className="mt-4 p-3 rounded-xl border border-white/5 bg-white/5 text-xs">
+      <div className="flex items-center gap-2">
+        <CloudOff className="w-4 h-4 text-gray-400 shrink-0" />
+        <span className="text-gray-400 font-bold uppercase tracking-wider text-[10px]">Outbox</span>
+        <span className="text-gray-600">· {state}</span>
+      </div>
+      <div className="mt-3 space-y-1.5">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center gap-2 p-2 rounded-lg border border-white/5 bg-black/20">
+            {item.id === sendingId
+              ? <div className="w-3.5 h-3.5 border-2 border-gray-600 border-t-white rounded-full animate-spin shrink-0" />
+              : item.status === 'failed'
+                ? <CircleX className="w-3.5 h-3.5 text-red-400 shrink-0" />
+                : <Clock className="w-3.5 h-3.5 text-gray-600 shrink-0" />}
+            <div className="flex-grow min-w-0">
+              <div className="truncate text-gray-300">{item.prompt}</div>
+              <div className="truncate text-[10px] text-gray-600">
+                {findGoal(goals, item.settings.goals[0].goalId).name}
+                {item.settings.goals.length > 1 && ` +${item.settings.goals.length - 1}`}
+                {' · '}{modelName(item.model)}
+                {' · '}{new Date(item.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </div>
+              {item.status === 'failed' && item.error && <div className="text-[10px] text-red-400">{item.error}</div>}
+            </div>
+            {item.status === 'failed' && (
+              <button onClick={() => onRetry(item.id)} className="text-gray-500 hover:text-white transition-colors shrink-0" title="Queue again">
+                <RotateCw className="w-3.5 h-3.5" />
+              </button>
+            )}
+            <button onClick={() => onCancel(item.id)} className="text-gray-500 hover:text-red-400 transition-colors shrink-0" title="Cancel">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OutboxPanel;
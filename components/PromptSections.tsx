@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { OutputFormat, StructuredPrompt } from '../types.ts';
+import { promptSections } from '../services/outputFormats.ts';
+
+interface PromptSectionsProps {
+  prompt: StructuredPrompt;
+  format: OutputFormat;
+}
+
+/**
+ * Shows a structured prompt part by part, each with its own copy button.
+ */
+const PromptSections: React.FC<PromptSectionsProps> = ({ prompt, format }) => {
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  const handleCopy = (index: number, content: string) => {
+    navigator.clipboard.writeText(content);
+    setCopiedIndex(index);
+    setTimeout(() => setCopiedIndex(current => (current === index ? null : current)), 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      {promptSections(prompt, format).map(({ label, content }, index) => (
+        <div key={`${label}-${index}`} className="rounded-xl bg-black/20 border border-white/5">
+          <div className="flex items-center justify-between px-3 pt-2">
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mono">{label}</span>
+            <button
+              onClick={() => handleCopy(index, content)}
+              className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold transition-all ${
+                copiedIndex === index ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-white hover:bg-white/20'
+              }`}
+            >
+              {copiedIndex === index ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+              {copiedIndex === index ? 'COPIED' : 'COPY'}
+            </button>
+          </div>
+          <div className="p-3 mono text-gray-200 text-xs leading-relaxed whitespace-pre-wrap break-words">{content}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PromptSections;
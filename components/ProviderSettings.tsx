@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { Server, Trash2, Plus, RotateCcw } from 'lucide-react';
+import { ModelOption, ModelPricing, ProviderConfig } from '../types.ts';
+import { DEFAULT_GEMINI_MODELS, createProviderId } from '../services/providerCatalog.ts';
+import { getModelPricing } from '../services/pricing.ts';
+
+interface ProviderSettingsProps {
+  providers: ProviderConfig[];
+  activeProviderId: string;
+  onSave: (providers: ProviderConfig[]) => void;
+  onClose: () => void;
+}
+
+const newProvider = (): ProviderConfig => ({
+  id: createProviderId(),
+  kind: 'openai-compatible',
+  name: 'Local Server',
+  baseUrl: 'http://localhost:11434/v1',
+  models: [{ id: 'llama3.1', name: 'Llama 3.1', desc: 'Local' }],
+});
+
+/**
+ * Edits the provider catalog: OpenAI-compatible endpoints and every provider's model list.
+ */
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ providers, activeProviderId, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderConfig[]>(providers);
+  const [editingId, setEditingId] = useState(activeProviderId);
+  const editing = draft.find(p => p.id === editingId) || draft[0];
+
+  const updateEditing = (patch: Partial<ProviderConfig>) =>
+    setDraft(draft.map(p => (p.id === editing.id ? { ...p, ...patch } : p)));
+
+  const updateModel = (index: number, patch: Partial<ModelOption>) =>
+    updateEditing({ models: editing.models.map((m, i) => (i === index ? { ...m, ...patch } : m)) });
+
+  // An empty price clears the override so the built-in price list applies again.
+  const updatePrice = (index: number, field: keyof ModelPricing, value: string) => {
+    const pricing = { inputPerMillion: 0, outputPerMillion: 0, ...editing.models[index].pricing, [field]: Math.max(0, Number(value) || 0) };
+    updateModel(index, { pricing: value === '' && !pricing.inputPerMillion && !pricing.outputPerMillion ? undefined : pricing });
+  };
+
+  const toggleFallback = (modelId: string) => {
+    const chain = editing.fallbackModels || [];
+    updateEditing({
+      fallbackModels: chain.includes(modelId) ? chain.filter(id => id !== modelId) : [...chain, modelId],
+    });
+  };
+
+  const handleAddProvider = () => {
+    const provider = newProvider();
+    setDraft([...draft, provider]);
+    setEditingId(provider.id);
+  };
+
+  const handleDeleteProvider = () => {
+    if (!confirm(`Delete the provider "${editing.name}"?`)) return;
+    setDraft(draft.filter(p => p.id !== editing.id));
+    setEditingId(draft[0].id);
+  };
+
+  const problems = draft.flatMap(p => {
+    const issues: string[] = [];
+    if (!p.name.trim()) issues.push("A provider needs a name.");
+    if (p.kind === 'openai-compatible' && !/^https?:\/\/\S+$/.test(p.baseUrl || '')) {
+      issues.push(`${p.name || 'A provider'} needs an http(s) base URL.`);
+    }
+    if (p.models.length === 0) issues.push(`${p.name || 'A provider'} needs at least one model.`);
+    if (p.models.some(m => !m.id.trim() || !m.name.trim())) issues.push(`Every model of ${p.name || 'a provider'} needs an id and a name.`);
+    if (new Set(p.models.map(m => m.id)).size !== p.models.length) issues.push(`${p.name || 'A provider'} lists the same model id twice.`);
+    return issues;
+  });
+
+  const handleSave = () => {
+    if (problems.length > 0) return;
+    onSave(draft.map(p => {
+      const models = p.models.map(m => ({ ...m, id: m.id.trim(), name: m.name.trim(), desc: m.desc.trim() }));
+      return {
+        ...p,
+        name: p.name.trim(),
+        baseUrl: p.baseUrl?.trim(),
+        models,
+        // Drop fallbacks whose model was removed from the list.
+        fallbackModels: p.fallbackModels?.filter(id => models.some(m => m.id === id)),
+      };
+    }));
+  };
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-white outline-none focus:border-red-500/50 transition-colors text-sm";
+  const labelClass = "block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 transition-all duration-300">
+      <div className="bg-[#0a0a0a] border border-white/10 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 shadow-2xl relative animate-in fade-in zoom-in duration-300">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-white">
+          <Trash2 className="w-5 h-5 rotate-45" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <Server className="w-5 h-5 text-red-500" />
+          Providers & Models
+        </h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Add OpenAI-compatible endpoints such as a local llama.cpp or Ollama server, and edit the models offered for each provider.
+        </p>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {draft.map(p => (
+            <button
+              key={p.id}
+              onClick={() => setEditingId(p.id)}
+              className={`px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 border ${
+                p.id === editing.id
+                  ? 'bg-purple-600/20 border-purple-500/50 text-purple-200'
+                  : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+              }`}
+            >
+              {p.name || 'Untitled'}
+            </button>
+          ))}
+          <button
+            onClick={handleAddProvider}
+            className="px-3 py-1.5 rounded-full text-xs font-semibold border border-dashed border-white/10 text-gray-500 hover:text-white hover:border-white/20 flex items-center gap-1 transition-all"
+          >
+            <Plus className="w-3 h-3" />
+            OpenAI-compatible
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {editing.kind === 'openai-compatible' ? (
+            <>
+              <div>
+                <label className={labelClass}>Name</label>
+                <input value={editing.name} onChange={(e) => updateEditing({ name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Base URL</label>
+                <input
+                  value={editing.baseUrl || ''}
+                  onChange={(e) => updateEditing({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:8080/v1"
+                  className={`${inputClass} font-mono`}
+                />
+                <p className="mt-1 text-[11px] text-gray-600">
+                  Requests go to &lt;base URL&gt;/chat/completions. The server must allow CORS from this page.
+                  If it needs an API key, add a key profile for this provider.
+                </p>
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Gemini uses the API key from your key profiles. You can still edit its model list below.
+            </p>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className={labelClass.replace(' mb-2', '')}>Models <span className="normal-case tracking-normal font-normal text-gray-600">· id, label, description, $ per 1M input / output tokens</span></label>
+              {editing.kind === 'gemini' && (
+                <button
+                  onClick={() => updateEditing({ models: DEFAULT_GEMINI_MODELS })}
+                  className="text-[11px] text-gray-500 hover:text-white flex items-center gap-1 transition-colors"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Reset to defaults
+                </button>
+              )}
+            </div>
+            <div className="space-y-2">
+              {editing.models.map((m, index) => (
+                <div key={index} className="flex gap-2">
+                  <input value={m.id} onChange={(e) => updateModel(index, { id: e.target.value })} placeholder="model-id" className={`${inputClass} font-mono flex-[2]`} />
+                  <input value={m.name} onChange={(e) => updateModel(index, { name: e.target.value })} placeholder="Label" className={`${inputClass} flex-[1.5]`} />
+                  <input value={m.desc} onChange={(e) => updateModel(index, { desc: e.target.value })} placeholder="Description" className={`${inputClass} flex-[2]`} />
+                  {(['inputPerMillion', 'outputPerMillion'] as const).map(field => (
+                    <input
+                      key={field}
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={m.pricing?.[field] ?? ''}
+                      onChange={(e) => updatePrice(index, field, e.target.value)}
+                      placeholder={String(getModelPricing(m.id)?.[field] ?? (field === 'inputPerMillion' ? '$ in' : '$ out'))}
+                      title={`USD per 1M ${field === 'inputPerMillion' ? 'input' : 'output'} tokens`}
+                      className={`${inputClass} flex-1 min-w-0`}
+                    />
+                  ))}
+                  <button
+                    onClick={() => updateEditing({ models: editing.models.filter((_, i) => i !== index) })}
+                    className="text-gray-500 hover:text-red-400 transition-colors px-1"
+                    title="Remove model"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateEditing({ models: [...editing.models, { id: '', name: '', desc: '' }] })}
+                className="text-xs text-gray-500 hover:text-white flex items-center gap-1 transition-colors"
+              >
+                <Plus className="w-3 h-3" />
+                Add model
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Fallback Chain</label>
+            <p className="text-[11px] text-gray-600 mb-2">
+              When the selected model is rate limited, missing or unavailable after retries, these models are tried in the order you pick them.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {editing.models.filter(m => m.id.trim()).map(m => {
+                const position = (editing.fallbackModels || []).indexOf(m.id);
+                return (
+                  <button
+                    key={m.id}
+                    onClick={() => toggleFallback(m.id)}
+                    className={`px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 border ${
+                      position >= 0
+                        ? 'bg-purple-600/20 border-purple-500/50 text-purple-200'
+                        : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+                    }`}
+                  >
+                    {position >= 0 && <span className="mr-1 text-purple-400">{position + 1}.</span>}
+                    {m.name || m.id}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="text-xs text-yellow-400 list-disc pl-4 space-y-0.5">
+              {problems.map((problem, index) => <li key={index}>{problem}</li>)}
+            </ul>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            {editing.kind === 'openai-compatible' && (
+              <button
+                onClick={handleDeleteProvider}
+                className="px-4 py-2 rounded-xl text-xs font-bold text-red-400 hover:bg-red-500/10 transition-colors"
+              >
+                Delete Provider
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={problems.length > 0}
+              className="flex-1 bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 text-white font-bold py-2 rounded-xl text-sm hover:shadow-lg hover:shadow-red-500/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Providers
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,30 @@
+import React, { useMemo } from 'react';
+import { diffWords } from '../utils/textDiff.ts';
+
+interface RevisionDiffProps {
+  before: string;
+  after: string;
+}
+
+/**
+ * Inline word diff between two versions of a refined prompt.
+ */
+const RevisionDiff: React.FC<RevisionDiffProps> = ({ before, after }) => {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <div className="mono text-gray-200 text-sm leading-relaxed whitespace-pre-wrap break-words">
+      {segments.map((segment, index) => {
+        if (segment.type === 'added') {
+          return <span key={index} className="bg-green-500/20 text-green-300 rounded-sm">{segment.text}</span>;
+        }
+        if (segment.type === 'removed') {
+          return <span key={index} className="bg-red-500/20 text-red-400 line-through rounded-sm">{segment.text}</span>;
+        }
+        return <span key={index}>{segment.text}</span>;
+      })}
+    </div>
+  );
+};
+
+export default RevisionDiff;
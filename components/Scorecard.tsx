@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Gauge, AlertTriangle } from 'lucide-react';
+import { PromptScorecard } from '../types.ts';
+import { RUBRIC, findRegressions, scorePrompts } from '../services/scoringService.ts';
+import { ProviderOrKey } from '../services/geminiService.ts';
+
+interface ScorecardProps {
+  original: string;
+  refined: string;
+  modelId: string;
+  provider: ProviderOrKey;
+  /** Runs the pre-flight and budget checks on the prompts about to be graded. Returns false to cancel. */
+  onConfirmRun: (original: string, refined: string) => boolean;
+  /** Called with every new scorecard, so its cost is recorded. */
+  onScored: (scorecard: PromptScorecard) => void;
+  /** Extra actions rendered at the end of the header row. */
+  children?: React.ReactNode;
+}
+
+const scoreColor = (score: number) =>
+  score >= 8 ? 'text-green-400' : score >= 5 ? 'text-yellow-400' : 'text-red-400';
+
+/**
+ * Rubric scorecard for the raw and refined prompts, graded on demand by an LLM judge.
+ */
+const Scorecard: React.FC<ScorecardProps> = ({ original, refined, modelId, provider, onConfirmRun, onScored, children }) => {
+  const [scorecard, setScorecard] = useState<PromptScorecard | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Closing the panel stops a grading request still in flight.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleScore = async () => {
+    if (!onConfirmRun(original, refined)) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsScoring(true);
+    setError(null);
+    try {
+      const result = await scorePrompts(original, refined, modelId, provider, { signal: controller.signal });
+      onScored(result);
+      setScorecard(result);
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      setError(err.message || "An error occurred");
+    } finally {
+      if (!controller.signal.aborted) setIsScoring(false);
+    }
+  };
+
+  const regressions = scorecard ? findRegressions(scorecard) : [];
+  const total = (key: 'originalScore' | 'refinedScore') =>
+    scorecard ? scorecard.criteria.reduce((sum, c) => sum + c[key], 0) : 0;
+  const max = scorecard ? scorecard.criteria.length * 10 : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Gauge className="w-4 h-4 text-purple-400" />
+        <p className="text-[10px] text-gray-500 leading-tight uppercase tracking-wider font-bold">
+          {scorecard ? `Quality ${total('originalScore')} → ${total('refinedScore')} / ${max}` : 'Quality Scorecard'}
+        </p>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={handleScore}
+            disabled={isScoring}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold bg-white/10 text-white hover:bg-white/20 transition-all disabled:opacity-50"
+          >
+            {isScoring && <div className="w-3 h-3 border-2 border-gray-500 border-t-white rounded-full animate-spin" />}
+            {scorecard ? 'RESCORE' : 'SCORE'}
+          </button>
+          {children}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {regressions.length > 0 && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-xl text-yellow-400 text-xs flex gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>
+            The refined prompt scores lower than the original on{' '}
+            {regressions.map(r => RUBRIC.find(c => c.id === r.criterion)!.name).join(', ')}.
+          </span>
+        </div>
+      )}
+
+      {scorecard && (
+        <div className="space-y-2">
+          {scorecard.criteria.map(c => {
+            const name = RUBRIC.find(r => r.id === c.criterion)!.name;
+            return (
+              <div key={c.criterion} className="p-3 rounded-xl bg-white/5 border border-white/5">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs font-semibold text-gray-300">{name}</span>
+                  <span className="text-xs font-bold tabular-nums">
+                    <span className={scoreColor(c.originalScore)}>{c.originalScore}</span>
+                    <span className="text-gray-600"> → </span>
+                    <span className={scoreColor(c.refinedScore)}>{c.refinedScore}</span>
+                  </span>
+                </div>
+                <div className="h-1 rounded-full bg-white/5 overflow-hidden mb-2">
+                  <div
+                    className="h-full bg-gradient-to-r from-blue-500 via-purple-500 to-red-500"
+                    style={{ width: `${c.refinedScore * 10}%` }}
+                  />
+                </div>
+                <p className="text-[11px] text-gray-500 leading-relaxed">
+                  <span className="text-blue-400 font-bold">Original:</span> {c.originalJustification}
+                </p>
+                <p className="text-[11px] text-gray-500 leading-relaxed">
+                  <span className="text-red-400 font-bold">Refined:</span> {c.refinedJustification}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Scorecard;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Keyboard, Trash2, RotateCcw } from 'lucide-react';
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  SHORTCUT_ACTIONS,
+  ShortcutActionId,
+  ShortcutBindings,
+  bindingFromEvent,
+  formatBinding,
+  isUsableBinding
+} from '../services/shortcuts.ts';
+
+interface ShortcutSettingsProps {
+  bindings: ShortcutBindings;
+  onSave: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+/**
+ * Rebinds the keyboard shortcuts. Pressing a combination already used by
+ * another action moves it to the one being recorded.
+ */
+const ShortcutSettings: React.FC<ShortcutSettingsProps> = ({ bindings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ShortcutBindings>(bindings);
+  const [recordingId, setRecordingId] = useState<ShortcutActionId | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleRecordKey = (e: React.KeyboardEvent, id: ShortcutActionId) => {
+    if (recordingId !== id || e.key === 'Tab') return;
+    e.preventDefault();
+    e.stopPropagation();
+    const plain = !(e.ctrlKey || e.metaKey || e.altKey || e.shiftKey);
+    if (e.key === 'Escape' && plain) {
+      setRecordingId(null);
+      setMessage(null);
+      return;
+    }
+    if ((e.key === 'Backspace' || e.key === 'Delete') && plain) {
+      setDraft({ ...draft, [id]: '' });
+      setRecordingId(null);
+      setMessage(null);
+      return;
+    }
+    const binding = bindingFromEvent(e);
+    if (!binding) return;
+    if (!isUsableBinding(binding)) {
+      setMessage(`${formatBinding(binding)} would get in the way of typing. Add Ctrl, Alt or ${formatBinding('Mod')}.`);
+      return;
+    }
+    const taken = SHORTCUT_ACTIONS.find(action => action.id !== id && draft[action.id] === binding);
+    setDraft({ ...draft, ...(taken ? { [taken.id]: '' } : {}), [id]: binding });
+    setMessage(taken ? `${formatBinding(binding)} was moved from "${taken.name}", which is now unbound.` : null);
+    setRecordingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 transition-all duration-300">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-settings-title"
+        className="bg-[#0a0a0a] border border-white/10 rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 shadow-2xl relative animate-in fade-in zoom-in duration-300"
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-white" aria-label="Close">
+          <Trash2 className="w-5 h-5 rotate-45" />
+        </button>
+
+        <h2 id="shortcut-settings-title" className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <Keyboard className="w-5 h-5 text-red-500" />
+          Keyboard Shortcuts
+        </h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Click a shortcut and press the new combination. Backspace unbinds it, Escape keeps the current one.
+        </p>
+
+        <div className="space-y-1.5">
+          {SHORTCUT_ACTIONS.map(action => {
+            const isRecording = recordingId === action.id;
+            return (
+              <div key={action.id} className="flex items-center gap-3 p-2 rounded-xl bg-white/5 border border-white/5 text-sm">
+                <span className="flex-grow text-gray-300">{action.name}</span>
+                <button
+                  onClick={() => {
+                    setRecordingId(isRecording ? null : action.id);
+                    setMessage(null);
+                  }}
+                  onKeyDown={(e) => handleRecordKey(e, action.id)}
+                  onBlur={() => isRecording && setRecordingId(null)}
+                  aria-label={`${action.name}: ${draft[action.id] ? formatBinding(draft[action.id]) : 'unbound'}. Press to change.`}
+                  className={`mono min-w-[7rem] px-3 py-1 rounded-lg border text-xs transition-all ${
+                    isRecording
+                      ? 'border-red-500/50 bg-red-500/10 text-red-300'
+                      : 'border-white/10 bg-black/20 text-gray-300 hover:border-white/20'
+                  }`}
+                >
+                  {isRecording ? 'Press keys...' : draft[action.id] ? formatBinding(draft[action.id]) : 'Unbound'}
+                </button>
+                <button
+                  onClick={() => setDraft({ ...draft, [action.id]: action.defaultBinding })}
+                  disabled={draft[action.id] === action.defaultBinding}
+                  className="text-gray-500 hover:text-white disabled:opacity-20 transition-colors"
+                  title={`Reset to ${formatBinding(action.defaultBinding)}`}
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        {message && <p className="mt-3 text-xs text-yellow-300" role="status">{message}</p>}
+
+        <div className="flex gap-3 pt-6">
+          <button
+            onClick={() => setDraft(DEFAULT_SHORTCUT_BINDINGS)}
+            className="px-4 py-2 rounded-xl text-xs font-bold text-gray-400 hover:bg-white/10 transition-colors"
+          >
+            Reset All
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex-1 bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 text-white font-bold py-2 rounded-xl text-sm hover:shadow-lg hover:shadow-red-500/20 transition-all"
+          >
+            Save Shortcuts
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutSettings;
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { Braces, Copy, Check, Download, Upload, AlertTriangle } from 'lucide-react';
+import { extractVariables, fillTemplate, findMissingVariables, isRedactionPlaceholder } from '../utils/templateVariables.ts';
+import { ParsedTable, parseTable, toCsv } from '../utils/tableParser.ts';
+import { downloadFile } from '../utils/download.ts';
+
+interface TemplatePanelProps {
+  /** The raw prompt, used to check that refinement kept every placeholder. */
+  original: string;
+  /** The template to fill in, usually the refined prompt. */
+  template: string;
+}
+
+/**
+ * Lists the {{variable}} placeholders of a prompt template, fills them in from a
+ * form, and expands the template against a pasted CSV/JSON table.
+ */
+const TemplatePanel: React.FC<TemplatePanelProps> = ({ original, template }) => {
+  // Redaction placeholders are filled in automatically, so they are not offered here.
+  const variables = useMemo(() => extractVariables(template).filter(v => !isRedactionPlaceholder(v)), [template]);
+  const missing = useMemo(
+    () => (original === template ? [] : findMissingVariables(original, template)),
+    [original, template]
+  );
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [mode, setMode] = useState<'form' | 'batch'>('form');
+  const [tableText, setTableText] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const rendered = fillTemplate(template, values);
+  const unfilled = variables.filter(v => !values[v]);
+
+  const table = useMemo((): { parsed?: ParsedTable; error?: string } => {
+    if (!tableText.trim()) return {};
+    try {
+      return { parsed: parseTable(tableText) };
+    } catch (err: any) {
+      return { error: err.message || "Could not parse the table." };
+    }
+  }, [tableText]);
+
+  const unmatchedColumns = table.parsed ? variables.filter(v => !table.parsed!.columns.includes(v)) : [];
+  const expanded = table.parsed ? table.parsed.rows.map(row => fillTemplate(template, row)) : [];
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(rendered);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setTableText(await file.text());
+    e.target.value = '';
+  };
+
+  const exportRows = (format: 'json' | 'csv') => {
+    if (!table.parsed) return;
+    const rows = table.parsed.rows.map((row, index) => ({ ...row, prompt: expanded[index] }));
+    if (format === 'json') {
+      downloadFile('prompts.json', JSON.stringify(rows, null, 2), 'application/json');
+    } else {
+      downloadFile('prompts.csv', toCsv([...table.parsed.columns, 'prompt'], rows), 'text/csv');
+    }
+  };
+
+  if (variables.length === 0 && missing.length === 0) return null;
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${
+      active ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'
+    }`;
+
+  return (
+    <section className="glass rounded-3xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 text-gray-400 text-sm font-medium">
+          <Braces className="w-4 h-4 text-blue-400" />
+          TEMPLATE
+        </div>
+        <div className="flex gap-1">
+          <button onClick={() => setMode('form')} className={tabClass(mode === 'form')}>Fill</button>
+          <button onClick={() => setMode('batch')} className={tabClass(mode === 'batch')}>Batch</button>
+        </div>
+      </div>
+
+      {missing.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-xl text-yellow-400 text-xs flex gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>
+            The refined prompt dropped {missing.map(v => `{{${v}}}`).join(', ')}. Try refining again or add them back manually.
+          </span>
+        </div>
+      )}
+
+      {mode === 'form' ? (
+        <div className="space-y-3">
+          {variables.map(name => (
+            <div key={name}>
+              <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1 mono">{`{{${name}}}`}</label>
+              <textarea
+                value={values[name] || ''}
+                onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                rows={1}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white outline-none focus:border-blue-500/50 transition-colors resize-y"
+              />
+            </div>
+          ))}
+
+          <div className="pt-2">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+                Final Prompt {unfilled.length > 0 && <span className="text-yellow-500 normal-case">({unfilled.length} unfilled)</span>}
+              </span>
+              <button
+                onClick={handleCopy}
+                className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold transition-all ${
+                  copied ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-white hover:bg-white/20'
+                }`}
+              >
+                {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                {copied ? 'COPIED' : 'COPY'}
+              </button>
+            </div>
+            <div className="max-h-60 overflow-y-auto p-3 rounded-xl bg-black/20 border border-white/5 mono text-gray-300 text-xs leading-relaxed whitespace-pre-wrap break-words">
+              {rendered}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">
+            Paste a CSV with a header row or a JSON array of objects. Column names must match the variable names.
+          </p>
+          <textarea
+            value={tableText}
+            onChange={(e) => setTableText(e.target.value)}
+            placeholder={`${variables.join(',')}\n...`}
+            className="w-full h-32 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-white outline-none focus:border-blue-500/50 transition-colors resize-y mono"
+          />
+          <label className="inline-flex items-center gap-2 text-xs text-gray-400 hover:text-white cursor-pointer transition-colors">
+            <Upload className="w-3 h-3" />
+            Upload .csv or .json
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleUpload} className="hidden" />
+          </label>
+
+          {table.error && <p className="text-xs text-red-400">{table.error}</p>}
+          {unmatchedColumns.length > 0 && (
+            <p className="text-xs text-yellow-400">
+              No column for {unmatchedColumns.map(v => `{{${v}}}`).join(', ')}. Those placeholders stay unfilled.
+            </p>
+          )}
+
+          {table.parsed && (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+                  {expanded.length} prompt{expanded.length === 1 ? '' : 's'}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => exportRows('json')}
+                    disabled={expanded.length === 0}
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold bg-white/10 text-white hover:bg-white/20 transition-all disabled:opacity-30"
+                  >
+                    <Download className="w-3 h-3" />
+                    JSON
+                  </button>
+                  <button
+                    onClick={() => exportRows('csv')}
+                    disabled={expanded.length === 0}
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold bg-white/10 text-white hover:bg-white/20 transition-all disabled:opacity-30"
+                  >
+                    <Download className="w-3 h-3" />
+                    CSV
+                  </button>
+                </div>
+              </div>
+              <div className="max-h-60 overflow-y-auto space-y-2">
+                {expanded.slice(0, 20).map((prompt, index) => (
+                  <div key={index} className="p-2 rounded-lg bg-black/20 border border-white/5 mono text-gray-400 text-[11px] whitespace-pre-wrap break-words line-clamp-3">
+                    {prompt}
+                  </div>
+                ))}
+                {expanded.length > 20 && (
+                  <p className="text-[10px] text-gray-600 text-center">…and {expanded.length - 20} more in the export.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TemplatePanel;
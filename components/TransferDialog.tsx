@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { ArrowDownUp, Download, Upload, Trash2, AlertTriangle } from 'lucide-react';
+import { RefinementHistory } from '../types.ts';
+import { BundleImportReport, BundleSettings, bundleToMarkdown, createBundle, parseBundle } from '../services/bundleService.ts';
+import { downloadFile } from '../utils/download.ts';
+
+export interface ImportSummary {
+  entriesAdded: number;
+  entriesSkipped: number;
+  goalsAdded: number;
+  goalsSkipped: number;
+}
+
+interface TransferDialogProps {
+  history: RefinementHistory[];
+  selected: RefinementHistory[];
+  settings: BundleSettings;
+  /** Merges the bundle into the library and returns what was added. */
+  onImport: (report: BundleImportReport, applySettings: boolean) => Promise<ImportSummary>;
+  onClose: () => void;
+}
+
+/**
+ * Exports library entries as a JSON bundle or Markdown document, and imports bundles.
+ */
+const TransferDialog: React.FC<TransferDialogProps> = ({ history, selected, settings, onImport, onClose }) => {
+  const [scope, setScope] = useState<'selected' | 'all'>(selected.length > 0 ? 'selected' : 'all');
+  const [includeSettings, setIncludeSettings] = useState(true);
+  const [applySettings, setApplySettings] = useState(false);
+  const [report, setReport] = useState<BundleImportReport | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleExport = (format: 'json' | 'md') => {
+    const entries = scope === 'selected' ? selected : history;
+    const bundle = createBundle(entries, includeSettings ? settings : {});
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadFile(`promptperfect-${stamp}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+    } else {
+      downloadFile(`promptperfect-${stamp}.md`, bundleToMarkdown(bundle), 'text/markdown');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setSummary(null);
+    setImportError(null);
+    try {
+      setReport(parseBundle(await file.text()));
+    } catch (err: any) {
+      setReport(null);
+      setImportError(err.message || "Could not read the bundle.");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!report) return;
+    try {
+      setSummary(await onImport(report, applySettings));
+      setReport(null);
+    } catch (err: any) {
+      setImportError(err.message || "Import failed.");
+    }
+  };
+
+  const sectionTitle = "text-xs font-bold text-gray-500 uppercase tracking-wider mb-3";
+  const radioClass = (active: boolean) =>
+    `flex-1 px-3 py-2 rounded-xl text-xs font-semibold border transition-all ${
+      active ? 'bg-purple-600/20 border-purple-500/50 text-purple-200' : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+    } disabled:opacity-30`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 transition-all duration-300">
+      <div className="bg-[#0a0a0a] border border-white/10 rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 shadow-2xl relative animate-in fade-in zoom-in duration-300">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-white">
+          <Trash2 className="w-5 h-5 rotate-45" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <ArrowDownUp className="w-5 h-5 text-red-500" />
+          Import & Export
+        </h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Share prompts as a portable bundle. Your API key is never included.
+        </p>
+
+        <div className="mb-8">
+          <div className={sectionTitle}>Export</div>
+          <div className="flex gap-2 mb-3">
+            <button onClick={() => setScope('selected')} disabled={selected.length === 0} className={radioClass(scope === 'selected')}>
+              Selected ({selected.length})
+            </button>
+            <button onClick={() => setScope('all')} className={radioClass(scope === 'all')}>
+              Whole library ({history.length})
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-400 mb-4 cursor-pointer">
+            <input type="checkbox" checked={includeSettings} onChange={(e) => setIncludeSettings(e.target.checked)} className="accent-purple-500" />
+            Include settings (selected model and custom goals)
+          </label>
+          <div className="flex gap-3">
+            <button
+              onClick={() => handleExport('json')}
+              className="flex-1 flex items-center justify-center gap-2 bg-white/10 text-white font-bold py-2 rounded-xl text-xs hover:bg-white/20 transition-all"
+            >
+              <Download className="w-3 h-3" />
+              JSON Bundle
+            </button>
+            <button
+              onClick={() => handleExport('md')}
+              className="flex-1 flex items-center justify-center gap-2 bg-white/10 text-white font-bold py-2 rounded-xl text-xs hover:bg-white/20 transition-all"
+            >
+              <Download className="w-3 h-3" />
+              Markdown
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <div className={sectionTitle}>Import</div>
+          <label className="flex items-center justify-center gap-2 w-full py-3 rounded-xl border-2 border-dashed border-white/10 text-xs text-gray-400 hover:text-white hover:border-white/20 cursor-pointer transition-all">
+            <Upload className="w-3 h-3" />
+            Choose a .json bundle
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          </label>
+
+          {importError && <p className="mt-3 text-xs text-red-400">{importError}</p>}
+
+          {report && (
+            <div className="mt-4 space-y-3">
+              <p className="text-xs text-gray-300">
+                {report.bundle.entries.length} valid entr{report.bundle.entries.length === 1 ? 'y' : 'ies'}
+                {report.bundle.settings.customGoals?.length ? `, ${report.bundle.settings.customGoals.length} custom goal(s)` : ''}
+                {report.bundle.exportedAt && ` · exported ${new Date(report.bundle.exportedAt).toLocaleString()}`}
+              </p>
+              {report.errors.length > 0 && (
+                <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-xl text-yellow-400 text-xs">
+                  <div className="flex items-center gap-2 font-bold mb-1">
+                    <AlertTriangle className="w-3 h-3" />
+                    {report.errors.length} record(s) will be skipped
+                  </div>
+                  <ul className="max-h-32 overflow-y-auto space-y-0.5 list-disc pl-4">
+                    {report.errors.map((message, index) => <li key={index}>{message}</li>)}
+                  </ul>
+                </div>
+              )}
+              {report.bundle.settings.selectedModel && (
+                <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                  <input type="checkbox" checked={applySettings} onChange={(e) => setApplySettings(e.target.checked)} className="accent-purple-500" />
+                  Also switch to the bundle's model ({report.bundle.settings.selectedModel})
+                </label>
+              )}
+              <button
+                onClick={handleImport}
+                className="w-full bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 text-white font-bold py-2 rounded-xl text-sm hover:shadow-lg hover:shadow-red-500/20 transition-all"
+              >
+                Merge into Library
+              </button>
+            </div>
+          )}
+
+          {summary && (
+            <p className="mt-4 text-xs text-green-400">
+              Imported {summary.entriesAdded} entr{summary.entriesAdded === 1 ? 'y' : 'ies'} ({summary.entriesSkipped} duplicate{summary.entriesSkipped === 1 ? '' : 's'} skipped)
+              and {summary.goalsAdded} goal{summary.goalsAdded === 1 ? '' : 's'} ({summary.goalsSkipped} already present).
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransferDialog;
@@ -0,0 +1,229 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FlaskConical, Play, Clock, ThumbsUp, Equal, AlertTriangle } from 'lucide-react';
+import { ABTestRating, ABVerdict, ModelOption, RefinementHistory } from '../types.ts';
+import { ProviderOrKey, RefinementResult, runPrompt } from '../services/geminiService.ts';
+import { LLMError, toDisplayError } from '../services/providers/llmErrors.ts';
+import { extractVariables, isRedactionPlaceholder } from '../utils/templateVariables.ts';
+import ErrorNotice from './ErrorNotice.tsx';
+
+interface TryItPanelProps {
+  entry: RefinementHistory;
+  /** The refined text currently shown, which may be an older revision. */
+  refined: string;
+  models: ModelOption[];
+  defaultModelId: string;
+  provider: ProviderOrKey;
+  /** All history, used to tally ratings for the entry's goal. */
+  history: RefinementHistory[];
+  /** Runs the pre-flight and budget checks for running both prompts on the model. Returns false to cancel. */
+  onConfirmRun: (modelId: string, prompts: string[]) => boolean;
+  /**
+   * Called for every answer, so its cost is recorded. Cancelled runs have no
+   * result and are recorded from an estimate of the prompt sent.
+   */
+  onUsage: (modelId: string, prompt: string, result?: RefinementResult) => void;
+  /** Called on every vote. Changing the vote for the same run reuses its timestamp so it can be replaced. */
+  onRate: (rating: ABTestRating) => void;
+  onUpdateKey: () => void;
+  onEditModels: () => void;
+}
+
+interface AnswerState {
+  status: 'idle' | 'pending' | 'done' | 'error';
+  result?: RefinementResult;
+  error?: LLMError | string;
+}
+
+const tallyRatings = (history: RefinementHistory[], goalId: string) => {
+  const tally: Record<ABVerdict, number> = { original: 0, refined: 0, tie: 0 };
+  history
+    .filter(h => (h.goalId || h.goal) === goalId)
+    .forEach(h => h.ratings?.forEach(r => { tally[r.verdict]++; }));
+  return tally;
+};
+
+/**
+ * Runs the original and refined prompts against the same model and lets the
+ * user rate which answer is better.
+ */
+const TryItPanel: React.FC<TryItPanelProps> = ({
+  entry,
+  refined,
+  models,
+  defaultModelId,
+  provider,
+  history,
+  onConfirmRun,
+  onUsage,
+  onRate,
+  onUpdateKey,
+  onEditModels,
+}) => {
+  const [modelId, setModelId] = useState(defaultModelId);
+  const [answers, setAnswers] = useState<Record<'original' | 'refined', AnswerState>>({
+    original: { status: 'idle' },
+    refined: { status: 'idle' },
+  });
+  const [verdict, setVerdict] = useState<ABVerdict | null>(null);
+  const [ratedAt, setRatedAt] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Closing the panel cancels the answers still in flight.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const isRunning = answers.original.status === 'pending' || answers.refined.status === 'pending';
+  const canRate = answers.original.status === 'done' && answers.refined.status === 'done';
+  const hasVariables = [...extractVariables(entry.original), ...extractVariables(refined)].some(v => !isRedactionPlaceholder(v));
+  const tally = tallyRatings(history, entry.goalId || entry.goal);
+  const totalRatings = tally.original + tally.refined + tally.tie;
+
+  const handleRun = async () => {
+    if (!onConfirmRun(modelId, [entry.original, refined])) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setVerdict(null);
+    setRatedAt(null);
+    setAnswers({ original: { status: 'pending' }, refined: { status: 'pending' } });
+
+    const run = async (side: 'original' | 'refined', prompt: string) => {
+      try {
+        const result = await runPrompt(prompt, modelId, provider, { signal: controller.signal });
+        onUsage(modelId, prompt, result);
+        setAnswers(prev => ({ ...prev, [side]: { status: 'done', result } }));
+      } catch (err: any) {
+        if (controller.signal.aborted) {
+          onUsage(modelId, prompt);
+          setAnswers(prev => ({ ...prev, [side]: { status: 'idle' } }));
+          return;
+        }
+        setAnswers(prev => ({ ...prev, [side]: { status: 'error', error: toDisplayError(err) } }));
+      }
+    };
+
+    await Promise.all([run('original', entry.original), run('refined', refined)]);
+  };
+
+  const handleRate = (value: ABVerdict) => {
+    const timestamp = ratedAt ?? Date.now();
+    setVerdict(value);
+    setRatedAt(timestamp);
+    onRate({ model: modelId, verdict: value, timestamp });
+  };
+
+  const renderAnswer = (side: 'original' | 'refined', label: string, accent: string) => {
+    const answer = answers[side];
+    return (
+      <div className={`flex-1 min-w-0 rounded-2xl p-4 border flex flex-col ${verdict === side ? 'border-green-500/50 bg-green-500/5' : 'border-white/10 bg-white/5'}`}>
+        <div className="flex items-center justify-between mb-3">
+          <span className={`text-xs font-bold uppercase tracking-wider ${accent}`}>{label}</span>
+          {answer.result && (
+            <span className="flex items-center gap-1 text-[10px] text-gray-500 font-bold">
+              <Clock className="w-3 h-3" />{(answer.result.latencyMs / 1000).toFixed(1)}s
+            </span>
+          )}
+        </div>
+        <div className="flex-grow max-h-96 overflow-y-auto">
+          {answer.status === 'idle' && <p className="text-xs text-gray-600">Run the test to see this answer.</p>}
+          {answer.status === 'pending' && (
+            <div className="space-y-3">
+              <div className="h-3 w-3/4 rounded-full shimmer bg-white/5" />
+              <div className="h-3 w-full rounded-full shimmer bg-white/5" />
+              <div className="h-3 w-2/3 rounded-full shimmer bg-white/5" />
+            </div>
+          )}
+          {answer.status === 'error' && <ErrorNotice error={answer.error!} onUpdateKey={onUpdateKey} onEditModels={onEditModels} />}
+          {answer.result && (
+            <div className="text-gray-200 text-xs leading-relaxed whitespace-pre-wrap break-words">{answer.result.text}</div>
+          )}
+        </div>
+        {canRate && (
+          <button
+            onClick={() => handleRate(side)}
+            className={`mt-4 flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+              verdict === side ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-white hover:bg-white/20'
+            }`}
+          >
+            <ThumbsUp className="w-3 h-3" />
+            {verdict === side ? 'RATED BETTER' : 'THIS IS BETTER'}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <section className="glass rounded-3xl p-6 shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2 text-gray-400 text-sm font-medium">
+          <FlaskConical className="w-4 h-4 text-green-400" />
+          TRY IT
+        </div>
+        {totalRatings > 0 && (
+          <span className="text-[10px] text-gray-500 font-bold uppercase tracking-wider">
+            {entry.goal}: refined won {tally.refined} / {totalRatings} ({tally.original} original, {tally.tie} tie)
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {models.map(m => (
+          <button
+            key={m.id}
+            onClick={() => setModelId(m.id)}
+            disabled={isRunning}
+            className={`px-3 py-1.5 rounded-full text-xs font-semibold transition-all duration-300 border ${
+              modelId === m.id
+                ? 'bg-purple-600/20 border-purple-500/50 text-purple-200'
+                : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+            }`}
+          >
+            {m.name}
+          </button>
+        ))}
+        {isRunning ? (
+          <button
+            onClick={() => controllerRef.current?.abort()}
+            className="ml-auto flex items-center gap-2 px-4 py-1.5 rounded-full text-xs font-bold bg-white/10 text-white hover:bg-white/20 transition-all"
+          >
+            <div className="w-3 h-3 border-2 border-gray-500 border-t-white rounded-full animate-spin" />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            className="ml-auto flex items-center gap-2 px-4 py-1.5 rounded-full text-xs font-bold bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 text-white hover:shadow-lg hover:shadow-red-500/20 transition-all"
+          >
+            <Play className="w-3 h-3 fill-current" />
+            Run Both
+          </button>
+        )}
+      </div>
+
+      {hasVariables && (
+        <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-xl text-yellow-400 text-xs flex gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>These prompts contain template variables, which are sent unfilled.</span>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-4">
+        {renderAnswer('original', 'Original', 'text-blue-400')}
+        {renderAnswer('refined', 'Refined', 'text-red-400')}
+      </div>
+
+      {canRate && (
+        <button
+          onClick={() => handleRate('tie')}
+          className={`mt-4 w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+            verdict === 'tie' ? 'bg-green-500/20 text-green-400' : 'bg-white/5 text-gray-400 hover:bg-white/10'
+          }`}
+        >
+          <Equal className="w-3 h-3" />
+          {verdict === 'tie' ? 'RATED A TIE' : 'ABOUT THE SAME'}
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default TryItPanel;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { BarChart3, Trash2 } from 'lucide-react';
+import { ModelOption } from '../types.ts';
+import { formatCost } from '../services/pricing.ts';
+import {
+  BudgetPeriod,
+  USAGE_SOURCES,
+  UsageBudget,
+  UsageRecord,
+  UsageTotals,
+  dayKey,
+  groupUsage,
+  spentInPeriod,
+  sumUsage,
+} from '../services/usageLedger.ts';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  models: ModelOption[];
+  budget: UsageBudget;
+  onSaveBudget: (budget: UsageBudget) => void;
+  onClose: () => void;
+}
+
+const RECENT_DAYS = 14;
+
+const formatTokens = (value: number) => value.toLocaleString();
+
+const formatTotalsCost = (totals: UsageTotals) =>
+  totals.unpricedCalls === totals.calls ? '—' : `${formatCost(totals.cost)}${totals.unpricedCalls ? '*' : ''}`;
+
+/**
+ * Token and cost totals from the usage ledger by day, model, feature and goal, plus the budget cap.
+ */
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, models, budget, onSaveBudget, onClose }) => {
+  const [draft, setDraft] = useState<UsageBudget>(budget);
+  const totals = sumUsage(records);
+  const modelName = (id: string) => models.find(m => m.id === id)?.name || id;
+
+  const byDay = groupUsage(records, r => dayKey(r.timestamp))
+    .sort((a, b) => b.key.localeCompare(a.key))
+    .slice(0, RECENT_DAYS);
+  const byModel = groupUsage(records, r => r.model);
+  const bySource = groupUsage(records, r => r.source || '');
+  const byGoal = groupUsage(records.filter(r => r.goal), r => r.goal);
+
+  const spent = spentInPeriod(records, draft.period);
+  const budgetShare = draft.limit > 0 ? Math.min(1, spent / draft.limit) : 1;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(budget);
+
+  const sectionTitle = "text-xs font-bold text-gray-500 uppercase tracking-wider mb-3";
+  const inputClass = "bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-white outline-none focus:border-red-500/50 transition-colors text-sm";
+
+  const renderTable = (title: string, rows: { key: string; totals: UsageTotals }[], labelOf: (key: string) => string) => (
+    <div className="mb-8">
+      <div className={sectionTitle}>{title}</div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="font-semibold pb-2 pr-3"></th>
+              <th className="font-semibold pb-2 pr-3 text-right">Calls</th>
+              <th className="font-semibold pb-2 pr-3 text-right">Input</th>
+              <th className="font-semibold pb-2 pr-3 text-right">Output</th>
+              <th className="font-semibold pb-2 pr-3 text-right">Thinking</th>
+              <th className="font-semibold pb-2 pr-3 text-right">Avg latency</th>
+              <th className="font-semibold pb-2 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ key, totals: row }) => (
+              <tr key={key} className="border-t border-white/5 text-gray-300 tabular-nums">
+                <td className="py-1.5 pr-3 truncate max-w-[10rem]">{labelOf(key)}</td>
+                <td className="py-1.5 pr-3 text-right">{row.calls}</td>
+                <td className="py-1.5 pr-3 text-right">{formatTokens(row.promptTokens)}</td>
+                <td className="py-1.5 pr-3 text-right">{formatTokens(row.outputTokens)}</td>
+                <td className="py-1.5 pr-3 text-right">{formatTokens(row.thoughtsTokens)}</td>
+                <td className="py-1.5 pr-3 text-right">
+                  {row.averageLatencyMs === undefined ? '—' : `${(row.averageLatencyMs / 1000).toFixed(1)}s`}
+                </td>
+                <td className="py-1.5 text-right font-bold">{formatTotalsCost(row)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 transition-all duration-300">
+      <div className="bg-[#0a0a0a] border border-white/10 rounded-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 shadow-2xl relative animate-in fade-in zoom-in duration-300">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-white">
+          <Trash2 className="w-5 h-5 rotate-45" />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-red-500" />
+          Usage & Cost
+        </h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Token usage reported by the API for every call, including ones whose results were not kept. Deleting entries from the library doesn't remove their usage. Costs use list prices and are estimates.
+        </p>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-8">
+          {[
+            { label: 'Today', value: formatCost(spentInPeriod(records, 'day')) },
+            { label: 'This month', value: formatCost(spentInPeriod(records, 'month')) },
+            { label: 'All time', value: formatTotalsCost(totals) },
+            { label: 'Tokens', value: formatTokens(totals.totalTokens) },
+          ].map(card => (
+            <div key={card.label} className="p-3 rounded-xl bg-white/5 border border-white/5">
+              <div className="text-[10px] text-gray-500 uppercase tracking-wider font-bold mb-1">{card.label}</div>
+              <div className="text-lg font-bold text-white tabular-nums">{card.value}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mb-8">
+          <div className={sectionTitle}>Budget Cap</div>
+          <label className="flex items-center gap-2 text-xs text-gray-400 mb-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              className="accent-purple-500"
+            />
+            Check the estimated cost before each request
+          </label>
+          <div className={`flex flex-wrap items-center gap-2 ${draft.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+            <span className="text-xs text-gray-500">$</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={draft.limit}
+              onChange={(e) => setDraft({ ...draft, limit: Math.max(0, Number(e.target.value) || 0) })}
+              className={`${inputClass} w-24`}
+            />
+            <select
+              value={draft.period}
+              onChange={(e) => setDraft({ ...draft, period: e.target.value as BudgetPeriod })}
+              className={inputClass}
+            >
+              <option value="day">per day</option>
+              <option value="month">per month</option>
+            </select>
+            <select
+              value={draft.mode}
+              onChange={(e) => setDraft({ ...draft, mode: e.target.value as UsageBudget['mode'] })}
+              className={inputClass}
+            >
+              <option value="warn">warn before exceeding</option>
+              <option value="block">block when exceeded</option>
+            </select>
+          </div>
+          {draft.enabled && (
+            <div className="mt-3">
+              <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                <div
+                  className={`h-full ${budgetShare >= 1 ? 'bg-red-500' : budgetShare >= 0.8 ? 'bg-yellow-500' : 'bg-gradient-to-r from-blue-500 via-purple-500 to-red-500'}`}
+                  style={{ width: `${budgetShare * 100}%` }}
+                />
+              </div>
+              <p className="mt-1 text-[11px] text-gray-500">
+                {formatCost(spent)} of {formatCost(draft.limit)} used {draft.period === 'day' ? 'today' : 'this month'}.
+              </p>
+            </div>
+          )}
+          {isDirty && (
+            <button
+              onClick={() => onSaveBudget(draft)}
+              className="mt-3 px-4 py-1.5 rounded-lg text-xs font-bold bg-white/10 text-white hover:bg-white/20 transition-all"
+            >
+              Save Budget
+            </button>
+          )}
+        </div>
+
+        {records.length === 0 ? (
+          <p className="text-xs text-gray-600 text-center py-6">No usage recorded yet. New refinements will show up here.</p>
+        ) : (
+          <>
+            {renderTable(`Last ${RECENT_DAYS} Active Days`, byDay, key => new Date(`${key}T00:00`).toLocaleDateString())}
+            {renderTable('By Model', byModel, modelName)}
+            {renderTable('By Feature', bySource, key => USAGE_SOURCES.find(s => s.id === key)?.name || 'Earlier refinements')}
+            {renderTable('By Goal', byGoal, key => key)}
+            {totals.unpricedCalls > 0 && (
+              <p className="text-[11px] text-gray-600">* Excludes {totals.unpricedCalls} call(s) to models without a known price.</p>
+            )}
+            {totals.estimatedCalls > 0 && (
+              <p className="text-[11px] text-gray-600">
+                Includes {totals.estimatedCalls} stopped or interrupted call(s) whose tokens were estimated from the text sent and received.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
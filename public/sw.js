@@ -0,0 +1,109 @@
+// Service worker: keeps the app shell available offline so the library and
+// history stay usable. Model API requests are never cached.
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `promptperfect-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `promptperfect-runtime-${CACHE_VERSION}`;
+
+const SHELL_FILES = ['./', './index.html', './manifest.webmanifest', './icon.svg'];
+// Styles and fonts load from these hosts; the page renders unstyled without them.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const CDN_FILES = ['https://cdn.tailwindcss.com/'];
+
+// The built index.html references content-hashed bundles, so they are read from it.
+const assetsIn = (html) =>
+  [...html.matchAll(/(?:src|href)="((?:\.\/|\/)?assets\/[^"]+)"/g)].map(match => new URL(match[1], self.registration.scope).href);
+
+const isAsset = (url) => new URL(url).pathname.includes('/assets/');
+
+// Caches the bundles an index.html needs and drops those of earlier builds.
+const cacheShellAssets = async (html) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const assets = assetsIn(html);
+  await cache.addAll(assets);
+  const stale = (await cache.keys()).filter(request => isAsset(request.url) && !assets.includes(request.url));
+  await Promise.all(stale.map(request => cache.delete(request)));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_FILES);
+    await cacheShellAssets(await (await cache.match('./index.html')).text());
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await Promise.all(CDN_FILES.map(async (url) => {
+      try {
+        await runtime.put(url, await fetch(url, { mode: 'no-cors' }));
+      } catch (e) {
+        // Cached on first use instead.
+      }
+    }));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== SHELL_CACHE && name !== RUNTIME_CACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Pages come from the network when possible so new deploys show up, and from the cache offline.
+const handleNavigation = async (event) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      const html = await response.clone().text();
+      await cache.put('./index.html', response.clone());
+      event.waitUntil(cacheShellAssets(html).catch(() => {}));
+    }
+    return response;
+  } catch (e) {
+    return (await cache.match('./index.html')) || Response.error();
+  }
+};
+
+// Hashed bundles never change, so the cached copy is always right.
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (event) => {
+  const cached = await caches.match(event.request);
+  const network = fetch(event.request).then(async (response) => {
+    if (response.ok || response.type === 'opaque') {
+      const cache = await caches.open(RUNTIME_CACHE);
+      await cache.put(event.request, response.clone());
+    }
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(network.catch(() => {}));
+    return cached;
+  }
+  return network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
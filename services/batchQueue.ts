@@ -0,0 +1,156 @@
+import { TokenUsage } from "../types.ts";
+import { LLMError, toLLMError } from "./providers/llmErrors.ts";
+import { RecoveryOptions, RetryNotice } from "./retryPolicy.ts";
+import { RefinementResult } from "./geminiService.ts";
+
+// How long to hold new requests after one gave up on a rate limit without a Retry-After.
+const RATE_LIMIT_COOLDOWN_MS = 15000;
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'error';
+
+export interface BatchItem {
+  index: number;
+  prompt: string;
+  status: BatchItemStatus;
+  /** Requests sent for this item, counting manual retries but not automatic ones. */
+  runs: number;
+  refined?: string;
+  model?: string;
+  usage?: TokenUsage;
+  latencyMs?: number;
+  error?: LLMError;
+}
+
+export type BatchQueueState = 'running' | 'paused' | 'finished';
+
+export interface BatchSnapshot {
+  items: BatchItem[];
+  state: BatchQueueState;
+  /** Set while new requests are held back after a rate limit. */
+  cooldownUntil?: number;
+}
+
+export interface BatchQueueOptions {
+  /** Requests in flight at once. */
+  concurrency: number;
+  /** Used in error messages. */
+  providerName: string;
+  /** Refines one prompt, passing `recovery` on to the request. */
+  run: (prompt: string, recovery: RecoveryOptions) => Promise<RefinementResult>;
+  onChange: (snapshot: BatchSnapshot) => void;
+  onItemDone?: (item: BatchItem) => void;
+}
+
+export interface BatchQueue {
+  pause(): void;
+  resume(): void;
+  /** Queues failed items again (all of them, or the given indexes) and resumes. */
+  retry(indexes?: number[]): void;
+  setConcurrency(concurrency: number): void;
+  /** Stops scheduling and ignores results still in flight. */
+  dispose(): void;
+}
+
+/**
+ * Refines a list of prompts with bounded concurrency. When a request reports a
+ * rate limit, no new requests start until the suggested wait has passed, so the
+ * whole batch backs off instead of each item retrying on its own schedule.
+ * Pausing lets requests in flight finish.
+ */
+export const createBatchQueue = (prompts: string[], options: BatchQueueOptions): BatchQueue => {
+  let items: BatchItem[] = prompts.map((prompt, index) => ({ index, prompt, status: 'queued', runs: 0 }));
+  let concurrency = Math.max(1, options.concurrency);
+  let paused = false;
+  let disposed = false;
+  let cooldownUntil = 0;
+  let cooldownTimer: ReturnType<typeof setTimeout> | undefined;
+  const controller = new AbortController();
+
+  const count = (status: BatchItemStatus) => items.filter(item => item.status === status).length;
+
+  const emit = () => {
+    if (disposed) return;
+    const state: BatchQueueState = count('queued') + count('running') === 0 ? 'finished' : paused ? 'paused' : 'running';
+    options.onChange({ items, state, cooldownUntil: cooldownUntil > Date.now() ? cooldownUntil : undefined });
+  };
+
+  const update = (index: number, patch: Partial<BatchItem>) => {
+    items = items.map(item => (item.index === index ? { ...item, ...patch } : item));
+    return items[index];
+  };
+
+  const coolDown = (ms: number) => {
+    cooldownUntil = Math.max(cooldownUntil, Date.now() + ms);
+  };
+
+  const handleRetry = ({ error, delayMs }: RetryNotice) => {
+    if (error.kind !== 'rate-limit') return;
+    coolDown(delayMs ?? RATE_LIMIT_COOLDOWN_MS);
+    emit();
+  };
+
+  const runItem = async (index: number) => {
+    const item = update(index, { status: 'running', runs: items[index].runs + 1, error: undefined });
+    emit();
+    try {
+      const result = await options.run(item.prompt, { onRetry: handleRetry, signal: controller.signal });
+      if (disposed) return;
+      const done = update(index, { status: 'done', refined: result.text, model: result.model, usage: result.usage, latencyMs: result.latencyMs });
+      options.onItemDone?.(done);
+    } catch (err) {
+      if (disposed) return;
+      const error = toLLMError(err, options.providerName);
+      if (error.kind === 'rate-limit') coolDown(error.retryAfterMs ?? RATE_LIMIT_COOLDOWN_MS);
+      update(index, { status: 'error', error });
+    }
+    emit();
+    pump();
+  };
+
+  const pump = () => {
+    if (disposed || paused) return;
+    clearTimeout(cooldownTimer);
+    const wait = cooldownUntil - Date.now();
+    if (wait > 0) {
+      cooldownTimer = setTimeout(pump, wait);
+      return;
+    }
+    while (count('running') < concurrency) {
+      const next = items.find(item => item.status === 'queued');
+      if (!next) break;
+      runItem(next.index);
+    }
+    emit();
+  };
+
+  const queue: BatchQueue = {
+    pause() {
+      paused = true;
+      clearTimeout(cooldownTimer);
+      emit();
+    },
+    resume() {
+      paused = false;
+      pump();
+    },
+    retry(indexes) {
+      items = items.map(item =>
+        item.status === 'error' && (!indexes || indexes.includes(item.index)) ? { ...item, status: 'queued', error: undefined } : item
+      );
+      queue.resume();
+    },
+    setConcurrency(next) {
+      concurrency = Math.max(1, next);
+      pump();
+    },
+    dispose() {
+      disposed = true;
+      clearTimeout(cooldownTimer);
+      controller.abort();
+    },
+  };
+
+  // Start on the next tick so the caller can store the queue before the first update.
+  setTimeout(pump, 0);
+  return queue;
+};
@@ -0,0 +1,317 @@
+import { ABTestRating, ABVerdict, GoalDefinition, PromptAttachment, PromptRevision, RefinementHistory, RefinementSettings } from "../types.ts";
+import { isPromptAttachment } from "./referenceContext.ts";
+import { isRefinementSettings } from "./goalRegistry.ts";
+import { isUsage } from "./usageLedger.ts";
+import { OUTPUT_FORMATS, parseStructuredPrompt } from "./outputFormats.ts";
+
+export const BUNDLE_FORMAT = 'promptperfect-bundle';
+export const BUNDLE_VERSION = 1;
+
+/**
+ * Portable settings carried in a bundle. Only these fields are ever written,
+ * so credentials such as the stored API key can never leak into an export.
+ */
+export interface BundleSettings {
+  selectedModel?: string;
+  customGoals?: GoalDefinition[];
+}
+
+export interface PromptBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: BundleSettings;
+  entries: RefinementHistory[];
+}
+
+export interface BundleImportReport {
+  bundle: PromptBundle;
+  /** One message per record that failed validation. */
+  errors: string[];
+}
+
+export interface MergeResult<T> {
+  merged: T[];
+  added: T[];
+  duplicates: number;
+}
+
+const STATUSES = ['complete', 'partial', 'aborted'];
+const VERDICTS: ABVerdict[] = ['original', 'refined', 'tie'];
+
+const sanitizeSettings = (settings: BundleSettings): BundleSettings => ({
+  selectedModel: settings.selectedModel,
+  customGoals: settings.customGoals?.map(({ id, name, instruction, basePrinciples, temperature, topP }) => ({
+    id, name, instruction, basePrinciples, temperature, topP, builtIn: false,
+  })),
+});
+
+export const createBundle = (entries: RefinementHistory[], settings: BundleSettings): PromptBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  settings: sanitizeSettings(settings),
+  entries,
+});
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Checks one history record. Returns the reason it is invalid, or null when it is usable.
+ */
+const validateEntry = (value: any): string | null => {
+  if (!value || typeof value !== 'object') return "not an object";
+  for (const field of ['id', 'original', 'refined', 'goal']) {
+    if (typeof value[field] !== 'string') return `"${field}" must be a string`;
+  }
+  if (typeof value.timestamp !== 'number' || !Number.isFinite(value.timestamp)) return `"timestamp" must be a number`;
+  if (value.status !== undefined && !STATUSES.includes(value.status)) return `unknown status "${value.status}"`;
+  if (value.tags !== undefined && !isStringArray(value.tags)) return `"tags" must be a list of strings`;
+  if (value.notes !== undefined && typeof value.notes !== 'string') return `"notes" must be a string`;
+  if (value.revisions !== undefined && (
+    !Array.isArray(value.revisions) ||
+    value.revisions.some((r: any) => !r || typeof r.text !== 'string' || typeof r.timestamp !== 'number')
+  )) {
+    return `"revisions" must be a list of { text, timestamp } objects`;
+  }
+  if (value.ratings !== undefined && !Array.isArray(value.ratings)) return `"ratings" must be a list`;
+  if (value.settings !== undefined && !isRefinementSettings(value.settings)) {
+    return `"settings" must have goals, intensity, length and language`;
+  }
+  if (value.attachments !== undefined && (!Array.isArray(value.attachments) || !value.attachments.every(isPromptAttachment))) {
+    return `"attachments" must be a list of documents or examples`;
+  }
+  return null;
+};
+
+/**
+ * Rebuilds a revision from the fields it is allowed to have. Optional fields
+ * that don't match their type are dropped rather than stored as they are.
+ */
+const sanitizeRevision = (r: any): PromptRevision => ({
+  text: r.text,
+  timestamp: r.timestamp,
+  instruction: typeof r.instruction === 'string' ? r.instruction : undefined,
+  status: STATUSES.includes(r.status) ? r.status : undefined,
+  model: typeof r.model === 'string' ? r.model : undefined,
+  usage: isUsage(r.usage) ? { ...r.usage } : undefined,
+  latencyMs: typeof r.latencyMs === 'number' && Number.isFinite(r.latencyMs) ? r.latencyMs : undefined,
+  structured: (r.structured && parseStructuredPrompt(JSON.stringify(r.structured))) || undefined,
+});
+
+const isRating = (value: any): value is ABTestRating =>
+  value &&
+  typeof value.model === 'string' &&
+  VERDICTS.includes(value.verdict) &&
+  typeof value.timestamp === 'number';
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const sanitizeRefinementSettings = (settings: RefinementSettings): RefinementSettings => ({
+  goals: settings.goals.map(({ goalId, weight }) => ({ goalId, weight })),
+  intensity: settings.intensity,
+  length: settings.length,
+  language: settings.language,
+});
+
+const sanitizeAttachment = (a: PromptAttachment): PromptAttachment =>
+  a.kind === 'document'
+    ? { kind: 'document', id: a.id, name: a.name, content: a.content }
+    : { kind: 'example', id: a.id, name: a.name, input: a.input, output: a.output, embed: a.embed };
+
+/**
+ * Rebuilds an entry that passed `validateEntry` from the fields an entry can have.
+ * Unknown keys are left behind, and optional fields of the wrong type are dropped,
+ * so nothing the views don't expect reaches the library.
+ */
+const sanitizeEntry = (value: any): RefinementHistory => ({
+  id: value.id,
+  original: value.original,
+  refined: value.refined,
+  goal: value.goal,
+  goalId: optionalString(value.goalId),
+  settings: value.settings && sanitizeRefinementSettings(value.settings),
+  model: optionalString(value.model),
+  providerId: optionalString(value.providerId),
+  outputFormat: OUTPUT_FORMATS.some(f => f.id === value.outputFormat) ? value.outputFormat : undefined,
+  attachments: value.attachments?.map(sanitizeAttachment),
+  timestamp: value.timestamp,
+  status: value.status,
+  revisions: value.revisions?.map(sanitizeRevision),
+  ratings: value.ratings?.filter(isRating).map((r: ABTestRating) => ({ model: r.model, verdict: r.verdict, timestamp: r.timestamp })),
+  favorite: typeof value.favorite === 'boolean' ? value.favorite : undefined,
+  tags: value.tags && [...value.tags],
+  notes: value.notes,
+});
+
+const validateGoal = (value: any): string | null => {
+  if (!value || typeof value !== 'object') return "not an object";
+  for (const field of ['id', 'name', 'instruction']) {
+    if (typeof value[field] !== 'string') return `"${field}" must be a string`;
+  }
+  if (typeof value.temperature !== 'number' || typeof value.topP !== 'number') return `"temperature" and "topP" must be numbers`;
+  return null;
+};
+
+/**
+ * Parses and validates a JSON bundle. Invalid records are skipped and reported;
+ * a wrong format or version throws.
+ */
+export const parseBundle = (text: string): BundleImportReport => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!data || data.format !== BUNDLE_FORMAT) {
+    throw new Error("This file is not a PromptPerfect bundle.");
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${data.version}. This app reads up to version ${BUNDLE_VERSION}.`);
+  }
+  if (!Array.isArray(data.entries)) {
+    throw new Error(`The bundle has no "entries" list.`);
+  }
+
+  const errors: string[] = [];
+  const entries: RefinementHistory[] = [];
+  data.entries.forEach((value: any, index: number) => {
+    const problem = validateEntry(value);
+    if (problem) {
+      errors.push(`Entry ${index + 1}${typeof value?.id === 'string' ? ` (${value.id})` : ''}: ${problem}`);
+    } else {
+      entries.push(sanitizeEntry(value));
+    }
+  });
+
+  const settings: BundleSettings = {};
+  const rawSettings = data.settings && typeof data.settings === 'object' ? data.settings : {};
+  if (typeof rawSettings.selectedModel === 'string') {
+    settings.selectedModel = rawSettings.selectedModel;
+  }
+  if (Array.isArray(rawSettings.customGoals)) {
+    settings.customGoals = [];
+    rawSettings.customGoals.forEach((value: any, index: number) => {
+      const problem = validateGoal(value);
+      if (problem) {
+        errors.push(`Goal ${index + 1}: ${problem}`);
+      } else {
+        settings.customGoals!.push(value);
+      }
+    });
+  }
+
+  return {
+    bundle: {
+      format: BUNDLE_FORMAT,
+      version: data.version,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      settings: sanitizeSettings(settings),
+      entries,
+    },
+    errors,
+  };
+};
+
+const contentKey = (entry: RefinementHistory) => `${entry.original}\u0000${entry.refined}`;
+
+/**
+ * Adds incoming history entries that are not already present by id or by identical content.
+ */
+export const mergeHistoryEntries = (
+  existing: RefinementHistory[],
+  incoming: RefinementHistory[]
+): MergeResult<RefinementHistory> => {
+  const ids = new Set(existing.map(e => e.id));
+  const contents = new Set(existing.map(contentKey));
+  const added: RefinementHistory[] = [];
+
+  incoming.forEach(entry => {
+    if (ids.has(entry.id) || contents.has(contentKey(entry))) return;
+    ids.add(entry.id);
+    contents.add(contentKey(entry));
+    added.push(entry);
+  });
+
+  return {
+    merged: [...existing, ...added].sort((a, b) => b.timestamp - a.timestamp),
+    added,
+    duplicates: incoming.length - added.length,
+  };
+};
+
+/**
+ * Adds incoming custom goals that are not already present by id or by identical name and instruction.
+ */
+export const mergeCustomGoals = (
+  existing: GoalDefinition[],
+  incoming: GoalDefinition[]
+): MergeResult<GoalDefinition> => {
+  const ids = new Set(existing.map(g => g.id));
+  const contents = new Set(existing.map(g => `${g.name}\u0000${g.instruction}`));
+  const added = incoming.filter(goal => {
+    const key = `${goal.name}\u0000${goal.instruction}`;
+    if (ids.has(goal.id) || contents.has(key)) return false;
+    ids.add(goal.id);
+    contents.add(key);
+    return true;
+  });
+  return { merged: [...existing, ...added], added, duplicates: incoming.length - added.length };
+};
+
+const fence = (text: string) => {
+  // Use a fence longer than any backtick run inside the text.
+  const longest = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}\n${text}\n${ticks}`;
+};
+
+/**
+ * Renders a bundle as a human-readable Markdown document.
+ */
+export const bundleToMarkdown = (bundle: PromptBundle): string => {
+  const lines: string[] = [
+    '# PromptPerfect Export',
+    '',
+    `Exported ${new Date(bundle.exportedAt).toLocaleString()} · ${bundle.entries.length} entr${bundle.entries.length === 1 ? 'y' : 'ies'}`,
+    '',
+  ];
+
+  if (bundle.settings.selectedModel) {
+    lines.push(`**Model:** \`${bundle.settings.selectedModel}\``, '');
+  }
+  if (bundle.settings.customGoals?.length) {
+    lines.push('## Custom Goals', '');
+    bundle.settings.customGoals.forEach(goal => {
+      lines.push(`### ${goal.name}`, '', goal.instruction, '', `Temperature ${goal.temperature} · Top P ${goal.topP}`, '');
+      if (goal.basePrinciples) {
+        lines.push('**Base principles:**', '', fence(goal.basePrinciples), '');
+      }
+    });
+  }
+
+  bundle.entries.forEach((entry, index) => {
+    lines.push(
+      `## ${index + 1}. ${entry.goal}${entry.favorite ? ' ★' : ''}`,
+      '',
+      `- **Date:** ${new Date(entry.timestamp).toLocaleString()}`,
+    );
+    if (entry.model) lines.push(`- **Model:** \`${entry.model}\``);
+    if (entry.status && entry.status !== 'complete') lines.push(`- **Status:** ${entry.status}`);
+    if (entry.tags?.length) lines.push(`- **Tags:** ${entry.tags.map(t => `#${t}`).join(' ')}`);
+    lines.push('', '### Original', '', fence(entry.original), '', '### Refined', '', fence(entry.refined), '');
+
+    const followUps = (entry.revisions || []).filter(r => r.instruction);
+    if (followUps.length) {
+      lines.push('### Follow-ups', '');
+      followUps.forEach(r => lines.push(`- ${r.instruction}`));
+      lines.push('');
+    }
+    if (entry.notes) {
+      lines.push('### Notes', '', entry.notes, '');
+    }
+  });
+
+  return lines.join('\n');
+};
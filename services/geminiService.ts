@@ -1,67 +1,527 @@
+import { GoalDefinition, OutputFormat, PromptAttachment, PromptRevision, RefinementStatus, StructuredPrompt, TokenUsage } from "../types.ts";
+import { ComposedGoal, GOAL_WEIGHTS, GoalInput, resolveComposition } from "./goalRegistry.ts";
+import { ChatMessage, LLMProvider } from "./providers/llmProvider.ts";
+import { createGeminiProvider } from "./providers/geminiProvider.ts";
+import { LLMError, toLLMError } from "./providers/llmErrors.ts";
+import { RecoveryOptions, runWithRecovery } from "./retryPolicy.ts";
+import { extractVariables, isRedactionPlaceholder } from "../utils/templateVariables.ts";
+import { STRUCTURED_OUTPUT_INSTRUCTION, parseStructuredPrompt, renderStructuredPrompt, structuredPromptSchema } from "./outputFormats.ts";
+import { getReferenceInstruction } from "./referenceContext.ts";
 
-import { GoogleGenAI } from "@google/genai";
-import { RefinementGoal } from "../types.ts";
+const DEFAULT_PRINCIPLES = `1. Clarity & Precision: Eliminate ambiguity.
+  2. Contextual Depth: Add relevant context that helps the AI understand the underlying goal.
+  3. Formatting: Use Markdown structure (headings, lists) where appropriate to increase readability for the AI.
+  4. Role Play: Often, assigning a specific persona helps (e.g., 'You are a senior data scientist').
+  5. Negative Constraints: Specify what NOT to do if relevant.`;
+
+/**
+ * Tells the refiner to keep {{variable}} placeholders intact when the raw prompt is a template.
+ */
+const getTemplateInstruction = (rawPrompt: string) => {
+  const names = extractVariables(rawPrompt);
+  const variables = names.filter(v => !isRedactionPlaceholder(v)).map(v => `{{${v}}}`).join(', ');
+  const redacted = names.filter(isRedactionPlaceholder).map(v => `{{${v}}}`).join(', ');
+  return [
+    variables && `\n\nTEMPLATE VARIABLES: The prompt is a template containing the placeholders ${variables}. Keep every placeholder exactly as written, including the double curly braces and the name. Never fill them in, rename, merge, or remove them, and do not add new placeholders.`,
+    // The real values are put back after refinement by replacing these exact strings.
+    redacted && `\n\nREDACTED VALUES: The placeholders ${redacted} stand for sensitive values that were removed before sending. Preserve each of them verbatim wherever its value belongs in the refined prompt. Never rename, reformat, merge, or remove them.`,
+  ].filter(Boolean).join('');
+};
+
+/**
+ * The SPECIFIC GOAL section. Several goals are listed in priority order with
+ * their weights and blended into one prompt.
+ */
+const getGoalInstruction = ({ settings, definitions }: ComposedGoal) => {
+  if (definitions.length === 1) return `SPECIFIC GOAL: ${definitions[0].instruction}`;
+  const list = definitions.map((definition, index) => {
+    const weight = GOAL_WEIGHTS.find(w => w.value === settings.goals[index].weight)!.name.toLowerCase();
+    return `  ${index + 1}. ${definition.name} (${weight} weight): ${definition.instruction}`;
+  }).join('\n');
+  return `SPECIFIC GOALS: The prompt has to serve several goals at once. Blend them into one coherent prompt instead of addressing them one after another, give each the emphasis its weight asks for, and where they conflict, follow the goal listed first.\n${list}`;
+};
+
+const INTENSITY_INSTRUCTIONS = {
+  polish: `REWRITE INTENSITY: Light polish. Keep the user's wording, structure and voice. Only fix ambiguity, grammar and missing specifics, and do not add a persona or new sections unless something essential is missing.`,
+  balanced: '',
+  rewrite: `REWRITE INTENSITY: Full rewrite. Restructure, reorder and reword freely, and add roles, sections and constraints wherever they help, as long as the user's intent is preserved.`,
+};
+
+const LENGTH_INSTRUCTIONS = {
+  auto: '',
+  shorter: `TARGET LENGTH: Make the refined prompt shorter than the raw prompt. Cut everything that would not change the answer.`,
+  similar: `TARGET LENGTH: Keep the refined prompt about as long as the raw prompt, within roughly 20%.`,
+  longer: `TARGET LENGTH: Expand the refined prompt with more context, detail and constraints. A substantially longer prompt is expected.`,
+};
+
+/**
+ * Rewrite intensity, target length and output language, when they differ from the defaults.
+ */
+const getControlsInstruction = ({ settings }: ComposedGoal) => {
+  const language = settings.language.trim();
+  return [
+    INTENSITY_INSTRUCTIONS[settings.intensity],
+    LENGTH_INSTRUCTIONS[settings.length],
+    language && `OUTPUT LANGUAGE: Write the refined prompt in ${language}, whatever language the raw prompt is in. Keep code, identifiers and template placeholders unchanged.`,
+  ].filter(Boolean).map(line => `\n\n${line}`).join('');
+};
 
-const getSystemInstruction = (goal: RefinementGoal) => {
+/**
+ * The refiner's system instruction for a goal or a composition of goals.
+ * Template placeholders found in `rawPrompt` are called out so the model
+ * preserves them. Any format other than 'text' asks for the structured JSON
+ * that `parseStructuredPrompt` reads. Attachments are included as reference
+ * material and few-shot examples.
+ */
+export const getSystemInstruction = (
+  goal: GoalInput,
+  rawPrompt: string,
+  format: OutputFormat = 'text',
+  attachments: PromptAttachment[] = []
+) => {
+  const composition = resolveComposition(goal);
+  // The primary goal's principles lead when goals are combined.
   const base = `You are a world-class prompt engineer and AI optimization expert.
   Your task is to take a raw, simple, or poorly constructed user prompt and transform it into a high-quality instruction for a Large Language Model.
   
   Follow these principles:
-  1. Clarity & Precision: Eliminate ambiguity.
-  2. Contextual Depth: Add relevant context that helps the AI understand the underlying goal.
-  3. Formatting: Use Markdown structure (headings, lists) where appropriate to increase readability for the AI.
-  4. Role Play: Often, assigning a specific persona helps (e.g., 'You are a senior data scientist').
-  5. Negative Constraints: Specify what NOT to do if relevant.
+  ${composition.definitions[0].basePrinciples?.trim() || DEFAULT_PRINCIPLES}
   `;
 
-  const goals: Record<RefinementGoal, string> = {
-    [RefinementGoal.GENERAL]: "Provide a well-balanced, professional, and clear version of the user's prompt.",
-    [RefinementGoal.TECHNICAL]: "Focus on precision, terminology accuracy, and logical sequence. Ensure the prompt asks for evidence-based or mathematically sound responses.",
-    [RefinementGoal.CREATIVE]: "Enhance descriptive language, encourage stylistic flair, and broaden the imaginative scope. Add sensory details and emotional tone requirements.",
-    [RefinementGoal.CONCISE]: "Strip away fluff. Make the prompt direct and efficient while retaining the core intent. Use imperative language.",
-    [RefinementGoal.CODING]: "Focus on architecture, clean code principles, edge cases, and specific programming paradigms. Include requirements for documentation and testing.",
-    [RefinementGoal.STRUCTURED]: "Ensure the prompt asks for a strictly structured output (like JSON, Table, or CSV). Add schema requirements and type definitions."
-  };
+  const response = format === 'text'
+    ? `Respond ONLY with the refined prompt. Do not provide meta-commentary like 'Here is your prompt'. Just the prompt text itself.`
+    : STRUCTURED_OUTPUT_INSTRUCTION;
+  return `${base}\n\n${getGoalInstruction(composition)}${getControlsInstruction(composition)}${getTemplateInstruction(rawPrompt)}${getReferenceInstruction(attachments)}\n\n${response}`;
+};
+
+/** Sampling parameters come from the primary goal. */
+const samplingGoal = (goal: GoalInput): GoalDefinition => resolveComposition(goal).definitions[0];
+
+/**
+ * Where a request is sent: a configured provider, or a Gemini API key for the
+ * default Gemini backend.
+ */
+export type ProviderOrKey = LLMProvider | string | undefined;
+
+export const resolveProvider = (provider: ProviderOrKey): LLMProvider => {
+  if (typeof provider === 'object') return provider;
+  // Require the custom API key.
+  if (!provider) {
+    throw new LLMError('invalid-key', "No API key provided. Please set your Gemini API key in the settings.");
+  }
+  return createGeminiProvider(provider);
+};
+
+export interface TokenCount {
+  tokens: number;
+  /** True when the provider cannot count tokens and the number is a local estimate. */
+  estimated: boolean;
+}
+
+/**
+ * Rough token count for providers without a counting endpoint: about four characters per token.
+ */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Counts the input tokens a refinement would send, including the system instruction and attachments.
+ */
+export const countRefinementTokens = async (
+  rawPrompt: string,
+  goal: GoalInput,
+  modelName: string,
+  provider: ProviderOrKey,
+  signal?: AbortSignal,
+  attachments: PromptAttachment[] = []
+): Promise<TokenCount> => {
+  const llm = resolveProvider(provider);
+  const systemInstruction = getSystemInstruction(goal, rawPrompt, 'text', attachments);
+
+  if (llm.countTokens) {
+    try {
+      const tokens = await llm.countTokens({
+        model: modelName,
+        messages: [{ role: 'user', text: rawPrompt }],
+        systemInstruction,
+        signal,
+      });
+      return { tokens, estimated: false };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`${llm.name} token count failed, estimating instead:`, error);
+    }
+  }
+  return { tokens: estimateTokens(systemInstruction + rawPrompt), estimated: true };
+};
+
+/**
+ * Checks that a provider accepts its key and knows the model, using the
+ * cheapest call it has: a token count where available (free on Gemini),
+ * otherwise a one-word generation. Throws the provider's LLMError.
+ */
+export const testProviderKey = async (provider: LLMProvider, modelName: string, signal?: AbortSignal) => {
+  const request = { model: modelName, messages: [{ role: 'user' as const, text: 'Reply with OK.' }], signal };
+  try {
+    if (provider.countTokens) {
+      await provider.countTokens(request);
+    } else {
+      await provider.generate(request);
+    }
+  } catch (error) {
+    throw toLLMError(error, provider.name);
+  }
+};
+
+export interface RefinementResult {
+  text: string;
+  /** The model that produced the text, which differs from the requested one after a fallback. */
+  model: string;
+  /** Includes any retries. */
+  latencyMs: number;
+  usage?: TokenUsage;
+}
+
+/**
+ * Same as `refinePrompt`, but also reports latency and token usage for the call.
+ * Transient failures are retried; `recovery` can add a fallback chain of models.
+ */
+export const refinePromptDetailed = async (
+  rawPrompt: string,
+  goal: GoalInput,
+  modelName: string = "gemini-2.5-flash-lite",
+  provider?: ProviderOrKey,
+  recovery?: RecoveryOptions,
+  attachments: PromptAttachment[] = []
+): Promise<RefinementResult> => {
+  const llm = resolveProvider(provider);
+  const goalDefinition = samplingGoal(goal);
+  const startedAt = performance.now();
+  
+  try {
+    const { value: response, model } = await runWithRecovery(modelName, llm.name, async (model) => {
+      const response = await llm.generate({
+        model,
+        messages: [{ role: 'user', text: rawPrompt }],
+        systemInstruction: getSystemInstruction(goal, rawPrompt, 'text', attachments),
+        temperature: goalDefinition.temperature,
+        topP: goalDefinition.topP,
+        signal: recovery?.signal,
+      });
+      if (!response.text.trim()) {
+        throw new LLMError('empty-response', "Failed to generate a refined prompt.");
+      }
+      return response;
+    }, recovery);
 
-  return `${base}\n\nSPECIFIC GOAL: ${goals[goal]}\n\nRespond ONLY with the refined prompt. Do not provide meta-commentary like 'Here is your prompt'. Just the prompt text itself.`;
+    return {
+      text: response.text.trim(),
+      model,
+      latencyMs: Math.round(performance.now() - startedAt),
+      usage: response.usage,
+    };
+  } catch (error: any) {
+    if (recovery?.signal?.aborted) throw error;
+    console.error(`${llm.name} Error:`, error);
+    throw toLLMError(error, llm.name);
+  }
 };
 
 /**
- * Refines a user prompt based on a specific goal using Gemini AI.
- * Always initializes a new instance of GoogleGenAI to ensure the latest API key is used.
+ * Refines a user prompt based on a specific goal.
+ * The goal may be a built-in enum value or a full (possibly custom) goal definition.
+ * The request goes through the given provider; a plain string is treated as a Gemini
+ * API key, and a new Gemini client is created so the latest key is always used.
  */
 export const refinePrompt = async (
   rawPrompt: string,
-  goal: RefinementGoal,
+  goal: GoalInput,
   modelName: string = "gemini-2.5-flash-lite",
-  customApiKey?: string
+  provider?: ProviderOrKey,
+  recovery?: RecoveryOptions,
+  attachments: PromptAttachment[] = []
 ): Promise<string> => {
-  // Require the custom API key.
-  if (!customApiKey) {
-    throw new Error("No API key provided. Please set your Gemini API key in the settings.");
+  const result = await refinePromptDetailed(rawPrompt, goal, modelName, provider, recovery, attachments);
+  return result.text;
+};
+
+/**
+ * Executes a prompt as-is (no refiner system instruction) so its answer can be inspected.
+ */
+export const runPrompt = async (
+  prompt: string,
+  modelName: string = "gemini-2.5-flash-lite",
+  provider?: ProviderOrKey,
+  recovery?: RecoveryOptions
+): Promise<RefinementResult> => {
+  const llm = resolveProvider(provider);
+  const startedAt = performance.now();
+
+  try {
+    const { value: response, model } = await runWithRecovery(
+      modelName,
+      llm.name,
+      (model) => llm.generate({ model, messages: [{ role: 'user', text: prompt }], signal: recovery?.signal }),
+      recovery
+    );
+
+    return {
+      text: response.text.trim() || "The model returned an empty answer.",
+      model,
+      latencyMs: Math.round(performance.now() - startedAt),
+      usage: response.usage,
+    };
+  } catch (error: any) {
+    if (recovery?.signal?.aborted) throw error;
+    console.error(`${llm.name} Error:`, error);
+    throw toLLMError(error, llm.name);
   }
+};
+
+export interface StreamRefinementOptions extends RecoveryOptions {
+  /** Called with the accumulated text every time a new chunk arrives. */
+  onChunk: (text: string) => void;
+  /** Aborting this signal stops the request and resolves with the text received so far. */
+  signal?: AbortSignal;
+}
+
+export interface StreamRefinementResult {
+  text: string;
+  status: RefinementStatus;
+  /** The model that produced the text, which differs from the requested one after a fallback. */
+  model: string;
+  /** Set when the stream failed after some text had already arrived. */
+  error?: LLMError;
+  usage?: TokenUsage;
+  /** Includes any retries. */
+  latencyMs: number;
+}
+
+/**
+ * Replays a revision chain as a conversation: the raw prompt, then each version
+ * (as `modelTurn` renders it) after the instruction that produced it, then the new instruction.
+ */
+const revisionMessages = (
+  rawPrompt: string,
+  revisions: PromptRevision[],
+  instruction: string,
+  modelTurn: (revision: PromptRevision) => string
+): ChatMessage[] => {
+  const messages: ChatMessage[] = [{ role: 'user', text: rawPrompt }];
+  revisions.forEach((revision, index) => {
+    if (index > 0 && revision.instruction) {
+      messages.push({ role: 'user', text: revision.instruction });
+    }
+    messages.push({ role: 'model', text: modelTurn(revision) });
+  });
+  messages.push({ role: 'user', text: instruction });
+  return messages;
+};
+
+const REVISION_INSTRUCTION = `The user may follow up with instructions that revise your most recent refined prompt (e.g. 'make it shorter'). Apply each instruction to the latest version and respond ONLY with the complete updated prompt, never a partial diff or commentary.`;
+
+/**
+ * Shared streaming loop for refinements and revisions. Failures before the first
+ * chunk are retried (and may fall back to another model); once text has arrived,
+ * a failure resolves as 'partial' instead.
+ */
+const streamRefinement = async (
+  messages: ChatMessage[],
+  systemInstruction: string,
+  goalDefinition: GoalDefinition,
+  modelName: string,
+  provider: ProviderOrKey,
+  { onChunk, ...recovery }: StreamRefinementOptions
+): Promise<StreamRefinementResult> => {
+  const llm = resolveProvider(provider);
+  const { signal } = recovery;
+  const startedAt = performance.now();
+
+  const attempt = async (model: string): Promise<Omit<StreamRefinementResult, 'latencyMs'>> => {
+    let text = "";
+    let usage: TokenUsage | undefined;
+
+    try {
+      const stream = llm.stream({
+        model,
+        messages,
+        systemInstruction,
+        temperature: goalDefinition.temperature,
+        topP: goalDefinition.topP,
+        signal,
+      });
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.text) {
+          text += chunk.text;
+          onChunk(text);
+        }
+      }
+
+      if (signal?.aborted) {
+        return { text: text.trim(), status: 'aborted', model, usage };
+      }
+      if (!text.trim()) {
+        throw new LLMError('empty-response', "Failed to generate a refined prompt.");
+      }
+      return { text: text.trim(), status: 'complete', model, usage };
+    } catch (error: any) {
+      if (signal?.aborted) {
+        return { text: text.trim(), status: 'aborted', model, usage };
+      }
+      const normalized = toLLMError(error, llm.name);
+      if (text.trim()) {
+        console.error(`${llm.name} Error:`, error);
+        return { text: text.trim(), status: 'partial', model, error: normalized, usage };
+      }
+      throw normalized;
+    }
+  };
 
-  const ai = new GoogleGenAI({ apiKey: customApiKey });
-  
   try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: rawPrompt,
-      config: {
-        systemInstruction: getSystemInstruction(goal),
-        temperature: 0.7,
-        topP: 0.95,
-      },
-    });
-
-    // The .text property directly returns the generated string.
-    return response.text?.trim() || "Failed to generate a refined prompt.";
+    const { value } = await runWithRecovery(modelName, llm.name, attempt, recovery);
+    return { ...value, latencyMs: Math.round(performance.now() - startedAt) };
   } catch (error: any) {
-    console.error("Gemini Error:", error);
-    // Handle specific error code for missing/invalid API key configuration.
-    if (error.message?.includes("Requested entity was not found")) {
-      throw new Error("Requested entity was not found. This often indicates a model or API key mismatch. Please check your API key selection.");
+    // Aborted while waiting to retry.
+    if (signal?.aborted) {
+      return { text: '', status: 'aborted', model: modelName, latencyMs: Math.round(performance.now() - startedAt) };
     }
-    throw new Error(error.message || "The AI encountered an issue refining your prompt.");
+    console.error(`${llm.name} Error:`, error);
+    throw toLLMError(error, llm.name);
+  }
+};
+
+/**
+ * Streaming variant of `refinePrompt`. Partial text is delivered through `onChunk`.
+ * Resolves with status 'aborted' when the signal fires, and 'partial' when the
+ * stream breaks after some output was received. Errors before any output are thrown.
+ */
+export const refinePromptStream = async (
+  rawPrompt: string,
+  goal: GoalInput,
+  modelName: string = "gemini-2.5-flash-lite",
+  provider: ProviderOrKey,
+  options: StreamRefinementOptions,
+  attachments: PromptAttachment[] = []
+): Promise<StreamRefinementResult> => {
+  const goalDefinition = samplingGoal(goal);
+  const messages: ChatMessage[] = [{ role: 'user', text: rawPrompt }];
+  const systemInstruction = getSystemInstruction(goal, rawPrompt, 'text', attachments);
+  return streamRefinement(messages, systemInstruction, goalDefinition, modelName, provider, options);
+};
+
+/**
+ * Applies a follow-up instruction to the latest revision of a refined prompt.
+ * The whole revision chain is replayed as a multi-turn conversation so the
+ * model sees every earlier instruction.
+ */
+export const revisePromptStream = async (
+  rawPrompt: string,
+  revisions: PromptRevision[],
+  instruction: string,
+  goal: GoalInput,
+  modelName: string = "gemini-2.5-flash-lite",
+  provider: ProviderOrKey,
+  options: StreamRefinementOptions,
+  attachments: PromptAttachment[] = []
+): Promise<StreamRefinementResult> => {
+  const goalDefinition = samplingGoal(goal);
+  const messages = revisionMessages(rawPrompt, revisions, instruction, revision => revision.text);
+  const systemInstruction = `${getSystemInstruction(goal, rawPrompt, 'text', attachments)}\n\n${REVISION_INSTRUCTION}`;
+  return streamRefinement(messages, systemInstruction, goalDefinition, modelName, provider, options);
+};
+
+export interface StructuredRefinementResult extends RefinementResult {
+  structured: StructuredPrompt;
+}
+
+/**
+ * Shared request for structured refinements and revisions. Structured output
+ * cannot be shown until it is complete, so it is not streamed.
+ */
+const generateStructured = async (
+  messages: ChatMessage[],
+  systemInstruction: string,
+  goalDefinition: GoalDefinition,
+  format: OutputFormat,
+  modelName: string,
+  provider: ProviderOrKey,
+  recovery?: RecoveryOptions
+): Promise<StructuredRefinementResult> => {
+  const llm = resolveProvider(provider);
+  const startedAt = performance.now();
+
+  try {
+    const { value, model } = await runWithRecovery(modelName, llm.name, async (model) => {
+      const response = await llm.generate({
+        model,
+        messages,
+        systemInstruction,
+        temperature: goalDefinition.temperature,
+        topP: goalDefinition.topP,
+        jsonSchema: structuredPromptSchema,
+        signal: recovery?.signal,
+      });
+      const structured = parseStructuredPrompt(response.text);
+      if (!structured) {
+        throw new LLMError('empty-response', "The model did not return a structured prompt.");
+      }
+      return { structured, usage: response.usage };
+    }, recovery);
+
+    return {
+      text: renderStructuredPrompt(value.structured, format),
+      structured: value.structured,
+      model,
+      latencyMs: Math.round(performance.now() - startedAt),
+      usage: value.usage,
+    };
+  } catch (error: any) {
+    if (recovery?.signal?.aborted) throw error;
+    console.error(`${llm.name} Error:`, error);
+    throw toLLMError(error, llm.name);
   }
 };
+
+/**
+ * Refines a prompt into a system message and a user message using structured
+ * output, rendered in `format`. Aborting `recovery.signal` rejects with an AbortError.
+ */
+export const refinePromptStructured = async (
+  rawPrompt: string,
+  goal: GoalInput,
+  format: OutputFormat,
+  modelName: string = "gemini-2.5-flash-lite",
+  provider?: ProviderOrKey,
+  recovery?: RecoveryOptions,
+  attachments: PromptAttachment[] = []
+): Promise<StructuredRefinementResult> => {
+  const goalDefinition = samplingGoal(goal);
+  const messages: ChatMessage[] = [{ role: 'user', text: rawPrompt }];
+  const systemInstruction = getSystemInstruction(goal, rawPrompt, format, attachments);
+  return generateStructured(messages, systemInstruction, goalDefinition, format, modelName, provider, recovery);
+};
+
+/**
+ * Structured counterpart of `revisePromptStream`. Earlier versions are replayed
+ * as JSON so the model keeps answering in the same shape.
+ */
+export const revisePromptStructured = async (
+  rawPrompt: string,
+  revisions: PromptRevision[],
+  instruction: string,
+  goal: GoalInput,
+  format: OutputFormat,
+  modelName: string = "gemini-2.5-flash-lite",
+  provider?: ProviderOrKey,
+  recovery?: RecoveryOptions,
+  attachments: PromptAttachment[] = []
+): Promise<StructuredRefinementResult> => {
+  const goalDefinition = samplingGoal(goal);
+  const messages = revisionMessages(rawPrompt, revisions, instruction, revision =>
+    revision.structured ? JSON.stringify(revision.structured) : JSON.stringify({ sections: [], user: revision.text })
+  );
+  const systemInstruction = `${getSystemInstruction(goal, rawPrompt, format, attachments)}\n\n${REVISION_INSTRUCTION}`;
+  return generateStructured(messages, systemInstruction, goalDefinition, format, modelName, provider, recovery);
+};
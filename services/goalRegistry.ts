@@ -0,0 +1,162 @@
+import { GoalDefinition, GoalWeight, RefinementGoal, RefinementHistory, RefinementSettings, RewriteIntensity, TargetLength } from "../types.ts";
+import { getStore } from "./storage.ts";
+
+const CUSTOM_GOALS_STORAGE_KEY = 'custom_refinement_goals';
+
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_TOP_P = 0.95;
+
+const builtInInstructions: Record<RefinementGoal, string> = {
+  [RefinementGoal.GENERAL]: "Provide a well-balanced, professional, and clear version of the user's prompt.",
+  [RefinementGoal.TECHNICAL]: "Focus on precision, terminology accuracy, and logical sequence. Ensure the prompt asks for evidence-based or mathematically sound responses.",
+  [RefinementGoal.CREATIVE]: "Enhance descriptive language, encourage stylistic flair, and broaden the imaginative scope. Add sensory details and emotional tone requirements.",
+  [RefinementGoal.CONCISE]: "Strip away fluff. Make the prompt direct and efficient while retaining the core intent. Use imperative language.",
+  [RefinementGoal.CODING]: "Focus on architecture, clean code principles, edge cases, and specific programming paradigms. Include requirements for documentation and testing.",
+  [RefinementGoal.STRUCTURED]: "Ensure the prompt asks for a strictly structured output (like JSON, Table, or CSV). Add schema requirements and type definitions."
+};
+
+/**
+ * The built-in goals. Their ids are the enum values so that history entries
+ * saved before custom goals existed still resolve.
+ */
+export const BUILT_IN_GOALS: GoalDefinition[] = Object.values(RefinementGoal).map((goal) => ({
+  id: goal,
+  name: goal,
+  instruction: builtInInstructions[goal],
+  temperature: DEFAULT_TEMPERATURE,
+  topP: DEFAULT_TOP_P,
+  builtIn: true,
+}));
+
+export const isGoalDefinition = (value: any): value is GoalDefinition =>
+  value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.instruction === 'string' &&
+  typeof value.temperature === 'number' &&
+  typeof value.topP === 'number';
+
+export const loadCustomGoals = (): GoalDefinition[] => {
+  const saved = getStore().getItem(CUSTOM_GOALS_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed)
+      ? parsed.filter(isGoalDefinition).map((goal) => ({ ...goal, builtIn: false }))
+      : [];
+  } catch (e) {
+    console.error("Failed to load custom goals");
+    return [];
+  }
+};
+
+export const saveCustomGoals = (goals: GoalDefinition[]) => {
+  getStore().setItem(CUSTOM_GOALS_STORAGE_KEY, JSON.stringify(goals));
+};
+
+/**
+ * Merges the built-in goals with user-created ones. Built-in goals come first.
+ */
+export const mergeGoals = (customGoals: GoalDefinition[]): GoalDefinition[] => [
+  ...BUILT_IN_GOALS,
+  ...customGoals,
+];
+
+/**
+ * Looks a goal up by id, falling back to a name match (older history entries
+ * only stored the goal name) and finally to the general goal.
+ */
+export const findGoal = (goals: GoalDefinition[], idOrName: string): GoalDefinition =>
+  goals.find((g) => g.id === idOrName) ||
+  goals.find((g) => g.name === idOrName) ||
+  BUILT_IN_GOALS[0];
+
+/**
+ * Accepts either a built-in enum value or a full goal definition.
+ */
+export const resolveGoal = (goal: RefinementGoal | GoalDefinition): GoalDefinition =>
+  typeof goal === 'string' ? findGoal(BUILT_IN_GOALS, goal) : goal;
+
+export const createCustomGoalId = () => `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const DEFAULT_GOAL_WEIGHT: GoalWeight = 2;
+
+export const GOAL_WEIGHTS: { value: GoalWeight; name: string }[] = [
+  { value: 1, name: 'Low' },
+  { value: 2, name: 'Normal' },
+  { value: 3, name: 'High' },
+];
+
+export const REWRITE_INTENSITIES: { id: RewriteIntensity; name: string; desc: string }[] = [
+  { id: 'polish', name: 'Light Polish', desc: "Keep the wording and structure, fix what's unclear" },
+  { id: 'balanced', name: 'Balanced', desc: 'Improve freely while keeping the original shape' },
+  { id: 'rewrite', name: 'Full Rewrite', desc: 'Restructure and reword everything' },
+];
+
+export const TARGET_LENGTHS: { id: TargetLength; name: string }[] = [
+  { id: 'auto', name: 'Auto' },
+  { id: 'shorter', name: 'Shorter' },
+  { id: 'similar', name: 'Similar' },
+  { id: 'longer', name: 'Longer' },
+];
+
+export const createRefinementSettings = (goalId: string): RefinementSettings => ({
+  goals: [{ goalId, weight: DEFAULT_GOAL_WEIGHT }],
+  intensity: 'balanced',
+  length: 'auto',
+  language: '',
+});
+
+export const isRefinementSettings = (value: any): value is RefinementSettings =>
+  value &&
+  Array.isArray(value.goals) &&
+  value.goals.length > 0 &&
+  value.goals.every((g: any) => g && typeof g.goalId === 'string' && GOAL_WEIGHTS.some(w => w.value === g.weight)) &&
+  REWRITE_INTENSITIES.some(i => i.id === value.intensity) &&
+  TARGET_LENGTHS.some(l => l.id === value.length) &&
+  typeof value.language === 'string';
+
+/**
+ * The settings an entry was refined with. Entries saved before goal
+ * composition get their single goal with the default controls.
+ */
+export const settingsOfEntry = (entry: RefinementHistory): RefinementSettings =>
+  entry.settings || createRefinementSettings(entry.goalId || entry.goal);
+
+/**
+ * Refinement settings with their goals resolved, ready for the refinement service.
+ */
+export interface ComposedGoal {
+  settings: RefinementSettings;
+  /** The definitions of `settings.goals`, in the same order. */
+  definitions: GoalDefinition[];
+}
+
+/**
+ * Resolves the settings' goal ids. Unknown ids fall back like `findGoal`,
+ * duplicates are dropped and an empty list becomes the general goal.
+ */
+export const composeGoals = (goals: GoalDefinition[], settings: RefinementSettings): ComposedGoal => {
+  const weighted = (settings.goals.length ? settings.goals : createRefinementSettings(BUILT_IN_GOALS[0].id).goals)
+    .map(g => ({ ...g, definition: findGoal(goals, g.goalId) }))
+    .filter((g, index, list) => list.findIndex(other => other.definition.id === g.definition.id) === index);
+  return {
+    settings: { ...settings, goals: weighted.map(g => ({ goalId: g.definition.id, weight: g.weight })) },
+    definitions: weighted.map(g => g.definition),
+  };
+};
+
+/**
+ * What the refinement service accepts as a goal: a built-in enum value, a
+ * single definition, or a composition.
+ */
+export type GoalInput = RefinementGoal | GoalDefinition | ComposedGoal;
+
+export const resolveComposition = (goal: GoalInput): ComposedGoal => {
+  if (typeof goal === 'object' && 'definitions' in goal) return goal;
+  const definition = resolveGoal(goal);
+  return { settings: createRefinementSettings(definition.id), definitions: [definition] };
+};
+
+/** e.g. "Software Development + Highly Structured/JSON". */
+export const compositionName = (goal: ComposedGoal) => goal.definitions.map(d => d.name).join(' + ');
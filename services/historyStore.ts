@@ -0,0 +1,102 @@
+import { RefinementHistory } from "../types.ts";
+
+const DB_NAME = 'promptperfect';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+const LEGACY_STORAGE_KEY = 'prompt_history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Copies the legacy localStorage history into IndexedDB once, then removes it.
+ * Entries already present in the store are left as they are.
+ */
+const migrateLegacyHistory = async (db: IDBDatabase) => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+
+  let entries: RefinementHistory[] = [];
+  try {
+    const parsed = JSON.parse(saved);
+    entries = Array.isArray(parsed) ? parsed.filter(e => e && typeof e.id === 'string') : [];
+  } catch (e) {
+    console.error("Failed to parse legacy history");
+  }
+
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  const keysRequest = store.getAllKeys();
+  keysRequest.onsuccess = () => {
+    const existing = new Set(keysRequest.result);
+    entries.filter(entry => !existing.has(entry.id)).forEach(entry => store.put(entry));
+  };
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+/**
+ * Loads every history entry, newest first. Migrates legacy data on first use.
+ */
+export const loadHistory = async (): Promise<RefinementHistory[]> => {
+  const db = await openDb();
+  await migrateLegacyHistory(db);
+  const entries = await requestToPromise<RefinementHistory[]>(
+    db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll()
+  );
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const putHistoryEntries = async (entries: RefinementHistory[]) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+};
+
+export const putHistoryEntry = (entry: RefinementHistory) => putHistoryEntries([entry]);
+
+export const deleteHistoryEntry = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).delete(id);
+  await transactionDone(tx);
+};
+
+export const clearHistoryStore = async () => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).clear();
+  await transactionDone(tx);
+};
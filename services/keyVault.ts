@@ -0,0 +1,210 @@
+import { getStore } from "./storage.ts";
+
+const KEY_VAULT_STORAGE_KEY = 'key_vault';
+// Where a single Gemini key used to be kept in plain text.
+const LEGACY_KEY_STORAGE_KEY = 'custom_gemini_api_key';
+
+const PBKDF2_ITERATIONS = 600_000;
+// Encrypted with the vault key so a wrong passphrase is detected before any profile is touched.
+const VERIFIER_TEXT = 'promptperfect-key-vault';
+
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0];
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+/** AES-GCM ciphertext with its nonce, both base64. */
+export interface EncryptedSecret {
+  iv: string;
+  data: string;
+}
+
+export interface KeyProfile {
+  id: string;
+  name: string;
+  providerId: string;
+  /** Selected when the profile is switched to. */
+  model: string;
+  key: EncryptedSecret;
+}
+
+export interface KeyVault {
+  salt: string;
+  iterations: number;
+  verifier: EncryptedSecret;
+  profiles: KeyProfile[];
+  activeProfileId?: string;
+  /** Minutes without interaction before the vault locks; 0 never locks. */
+  autoLockMinutes: number;
+}
+
+/**
+ * An unlocked vault, only ever held in memory: the derived key for sealing new
+ * profiles and the decrypted API key of each profile.
+ */
+export interface UnlockedVault {
+  cryptoKey: CryptoKey;
+  keys: Record<string, string>;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("That passphrase does not unlock your keys.");
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveVaultKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptSecret = async (cryptoKey: CryptoKey, plaintext: string): Promise<EncryptedSecret> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decryptSecret = async (cryptoKey: CryptoKey, secret: EncryptedSecret) => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(secret.iv) }, cryptoKey, fromBase64(secret.data));
+  return new TextDecoder().decode(data);
+};
+
+export const createProfileId = () => `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Sets up an empty vault protected by `passphrase` and returns it unlocked.
+ */
+export const createKeyVault = async (passphrase: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const cryptoKey = await deriveVaultKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const vault: KeyVault = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encryptSecret(cryptoKey, VERIFIER_TEXT),
+    profiles: [],
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+  };
+  const unlocked: UnlockedVault = { cryptoKey, keys: {} };
+  return { vault, unlocked };
+};
+
+/**
+ * Derives the vault key from `passphrase` and decrypts every profile's API key.
+ * Throws WrongPassphraseError when the passphrase does not match.
+ */
+export const unlockKeyVault = async (vault: KeyVault, passphrase: string): Promise<UnlockedVault> => {
+  const cryptoKey = await deriveVaultKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  try {
+    if (await decryptSecret(cryptoKey, vault.verifier) !== VERIFIER_TEXT) throw new WrongPassphraseError();
+  } catch {
+    // AES-GCM rejects ciphertext sealed with a different key.
+    throw new WrongPassphraseError();
+  }
+  const keys: Record<string, string> = {};
+  for (const profile of vault.profiles) {
+    keys[profile.id] = await decryptSecret(cryptoKey, profile.key);
+  }
+  return { cryptoKey, keys };
+};
+
+/**
+ * Adds or replaces a profile, encrypting its API key with the unlocked vault's key.
+ */
+export const saveKeyProfile = async (
+  vault: KeyVault,
+  unlocked: UnlockedVault,
+  profile: Omit<KeyProfile, 'key'>,
+  apiKey: string
+) => {
+  const sealed: KeyProfile = { ...profile, key: await encryptSecret(unlocked.cryptoKey, apiKey) };
+  const exists = vault.profiles.some(p => p.id === profile.id);
+  return {
+    vault: {
+      ...vault,
+      profiles: exists ? vault.profiles.map(p => (p.id === profile.id ? sealed : p)) : [...vault.profiles, sealed],
+    },
+    unlocked: { ...unlocked, keys: { ...unlocked.keys, [profile.id]: apiKey } },
+  };
+};
+
+export const deleteKeyProfile = (vault: KeyVault, unlocked: UnlockedVault | null, id: string) => {
+  const keys = { ...unlocked?.keys };
+  delete keys[id];
+  return {
+    vault: {
+      ...vault,
+      profiles: vault.profiles.filter(p => p.id !== id),
+      activeProfileId: vault.activeProfileId === id ? undefined : vault.activeProfileId,
+    },
+    unlocked: unlocked && { ...unlocked, keys },
+  };
+};
+
+/**
+ * The key to use for a provider: the active profile's when it belongs to that
+ * provider, otherwise the first profile set up for it.
+ */
+export const findProviderKey = (vault: KeyVault | null, unlocked: UnlockedVault | null, providerId: string) => {
+  if (!vault || !unlocked) return undefined;
+  const active = vault.profiles.find(p => p.id === vault.activeProfileId);
+  const profile = active?.providerId === providerId ? active : vault.profiles.find(p => p.providerId === providerId);
+  return profile ? unlocked.keys[profile.id] : undefined;
+};
+
+const isEncryptedSecret = (value: any): value is EncryptedSecret =>
+  value && typeof value.iv === 'string' && typeof value.data === 'string';
+
+const isKeyProfile = (value: any): value is KeyProfile =>
+  value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.providerId === 'string' &&
+  typeof value.model === 'string' &&
+  isEncryptedSecret(value.key);
+
+export const loadKeyVault = (): KeyVault | null => {
+  try {
+    const saved = JSON.parse(getStore().getItem(KEY_VAULT_STORAGE_KEY) || 'null');
+    if (saved && typeof saved.salt === 'string' && typeof saved.iterations === 'number' && isEncryptedSecret(saved.verifier)) {
+      return {
+        salt: saved.salt,
+        iterations: saved.iterations,
+        verifier: saved.verifier,
+        profiles: Array.isArray(saved.profiles) ? saved.profiles.filter(isKeyProfile) : [],
+        activeProfileId: typeof saved.activeProfileId === 'string' ? saved.activeProfileId : undefined,
+        autoLockMinutes: typeof saved.autoLockMinutes === 'number' ? saved.autoLockMinutes : DEFAULT_AUTO_LOCK_MINUTES,
+      };
+    }
+  } catch (e) {
+    console.error("Failed to load key vault");
+  }
+  return null;
+};
+
+/**
+ * Persists the vault; null deletes it along with every profile.
+ */
+export const saveKeyVault = (vault: KeyVault | null) => {
+  if (vault) {
+    getStore().setItem(KEY_VAULT_STORAGE_KEY, JSON.stringify(vault));
+  } else {
+    getStore().removeItem(KEY_VAULT_STORAGE_KEY);
+  }
+};
+
+/** The plain-text key saved by earlier versions, which the vault imports on setup. */
+export const loadLegacyApiKey = () => getStore().getItem(LEGACY_KEY_STORAGE_KEY) || '';
+
+export const clearLegacyApiKey = () => getStore().removeItem(LEGACY_KEY_STORAGE_KEY);
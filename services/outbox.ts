@@ -0,0 +1,144 @@
+import { OutputFormat, PromptAttachment, RefinementHistory, RefinementSettings, StructuredPrompt } from "../types.ts";
+import { getStore } from "./storage.ts";
+import { ProviderOrKey, RefinementResult, refinePromptDetailed, refinePromptStructured } from "./geminiService.ts";
+import { ComposedGoal, isRefinementSettings } from "./goalRegistry.ts";
+import { isPromptAttachment } from "./referenceContext.ts";
+import { Redactions, restoreRedactions } from "./preflightLint.ts";
+import { OUTPUT_FORMATS, mapStructuredPrompt, renderStructuredPrompt } from "./outputFormats.ts";
+import { RecoveryOptions } from "./retryPolicy.ts";
+
+const OUTBOX_STORAGE_KEY = 'refinement_outbox';
+
+/** How long to wait before trying again when the provider is still unreachable while online. */
+export const OUTBOX_RETRY_DELAY_MS = 30000;
+
+/** 'failed' items wait for a manual retry; 'queued' ones are sent once the app is back online. */
+export type OutboxStatus = 'queued' | 'failed';
+
+/**
+ * A refinement requested while offline, kept until it can be sent.
+ */
+export interface OutboxItem {
+  id: string;
+  /** The draft as it will be sent, with redacted values still as placeholders. */
+  prompt: string;
+  /** The values behind the placeholders, put back into the result. Kept in memory only, never saved. */
+  redactions: Redactions;
+  settings: RefinementSettings;
+  model: string;
+  providerId: string;
+  /** Omitted for plain text. */
+  outputFormat?: OutputFormat;
+  /** Kept in memory only, like the redactions, since they can be large. */
+  attachments?: PromptAttachment[];
+  createdAt: number;
+  status: OutboxStatus;
+  error?: string;
+}
+
+export const createOutboxId = () => `outbox-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isOutboxItem = (value: any): value is OutboxItem =>
+  value &&
+  typeof value.id === 'string' &&
+  typeof value.prompt === 'string' &&
+  value.redactions && typeof value.redactions === 'object' &&
+  isRefinementSettings(value.settings) &&
+  typeof value.model === 'string' &&
+  typeof value.providerId === 'string' &&
+  (value.outputFormat === undefined || OUTPUT_FORMATS.some(f => f.id === value.outputFormat)) &&
+  (value.attachments === undefined || (Array.isArray(value.attachments) && value.attachments.every(isPromptAttachment))) &&
+  typeof value.createdAt === 'number' &&
+  (value.status === 'queued' || value.status === 'failed');
+
+export const loadOutbox = (): OutboxItem[] => {
+  try {
+    const saved = JSON.parse(getStore().getItem(OUTBOX_STORAGE_KEY) || '[]');
+    if (Array.isArray(saved)) return saved.filter(isOutboxItem);
+  } catch (e) {
+    console.error("Failed to load the outbox");
+  }
+  return [];
+};
+
+// What a reload gets back: no secrets and no attachments. A queued item that had
+// either is saved as failed, so it is not sent without them unless the user retries it.
+const toSavedItem = (item: OutboxItem): OutboxItem => {
+  const { redactions, attachments, ...rest } = item;
+  const isMissingContext = item.status === 'queued' && (Object.keys(redactions).length > 0 || !!attachments?.length);
+  return {
+    ...rest,
+    redactions: {},
+    ...(isMissingContext && {
+      status: 'failed',
+      error: "Redacted values and attachments aren't kept after the page is closed. Retry to send it without them.",
+    }),
+  };
+};
+
+/**
+ * Persists the outbox. Returns false when storage refused it, usually because
+ * it is full; the items are still sent while the page stays open.
+ */
+export const saveOutbox = (items: OutboxItem[]) => {
+  try {
+    if (items.length === 0) {
+      getStore().removeItem(OUTBOX_STORAGE_KEY);
+    } else {
+      getStore().setItem(OUTBOX_STORAGE_KEY, JSON.stringify(items.map(toSavedItem)));
+    }
+    return true;
+  } catch (e) {
+    console.error("Failed to save the outbox", e);
+    return false;
+  }
+};
+
+/**
+ * Sends a queued refinement and returns the library entry for it. `goal` is
+ * the item's settings composed against the current goal list.
+ */
+export const runOutboxItem = async (
+  item: OutboxItem,
+  goal: ComposedGoal,
+  provider: ProviderOrKey,
+  recovery?: RecoveryOptions
+): Promise<RefinementHistory> => {
+  const reveal = (text: string) => restoreRedactions(text, item.redactions);
+  const format = item.outputFormat || 'text';
+  let result: RefinementResult & { structured?: StructuredPrompt };
+  if (format === 'text') {
+    const response = await refinePromptDetailed(item.prompt, goal, item.model, provider, recovery, item.attachments);
+    result = { ...response, text: reveal(response.text) };
+  } else {
+    const response = await refinePromptStructured(item.prompt, goal, format, item.model, provider, recovery, item.attachments);
+    const structured = mapStructuredPrompt(response.structured, reveal);
+    result = { ...response, structured, text: renderStructuredPrompt(structured, format) };
+  }
+
+  const primary = goal.definitions[0];
+  const timestamp = Date.now();
+  return {
+    id: timestamp.toString(),
+    original: reveal(item.prompt),
+    refined: result.text,
+    goal: primary.name,
+    goalId: primary.id,
+    settings: goal.settings,
+    model: result.model,
+    providerId: item.providerId,
+    outputFormat: item.outputFormat,
+    attachments: item.attachments,
+    timestamp,
+    status: 'complete',
+    revisions: [{
+      text: result.text,
+      status: 'complete',
+      timestamp,
+      model: result.model,
+      usage: result.usage,
+      latencyMs: result.latencyMs,
+      structured: result.structured,
+    }]
+  };
+};
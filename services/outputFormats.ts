@@ -0,0 +1,127 @@
+import { OutputFormat, PromptSection, StructuredPrompt } from "../types.ts";
+
+export const OUTPUT_FORMATS: { id: OutputFormat; name: string; desc: string }[] = [
+  { id: 'text', name: 'Plain Text', desc: 'One prompt, streamed as it is written' },
+  { id: 'split', name: 'System + User', desc: 'A system message and a user message' },
+  { id: 'messages', name: 'Messages JSON', desc: 'A chat-completions messages array' },
+  { id: 'xml', name: 'XML Sections', desc: 'Each part wrapped in its own tag' },
+  { id: 'gemini', name: 'Gemini Request', desc: 'systemInstruction + contents' },
+];
+
+// Plain JSON Schema so every provider's structured-output mode can use it.
+export const structuredPromptSchema = {
+  type: 'object',
+  properties: {
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          content: { type: 'string' },
+        },
+        required: ['name', 'content'],
+        additionalProperties: false,
+      },
+    },
+    user: { type: 'string' },
+  },
+  required: ['sections', 'user'],
+  additionalProperties: false,
+};
+
+export const STRUCTURED_OUTPUT_INSTRUCTION = `Respond with JSON only. Split the refined prompt into the system message and the user message:
+  - "sections": the system message as an ordered list of parts, each with a short snake_case "name" (such as role, context, instructions, constraints, output_format or examples) and its "content". Do not repeat the name inside the content.
+  - "user": the message the end user sends, i.e. the concrete task or question, phrased as a request.`;
+
+// The XML tag and label used for the user message.
+const USER_TAG = 'user_request';
+
+const toTag = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(?=\d)/, '_') || 'section';
+
+/**
+ * Reads the model's structured output. Returns null when it is not valid JSON
+ * or has neither sections nor a user message.
+ */
+export const parseStructuredPrompt = (text: string): StructuredPrompt | null => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const sections: PromptSection[] = (Array.isArray(parsed?.sections) ? parsed.sections : [])
+    .filter((s: any) => s && typeof s.content === 'string' && s.content.trim())
+    .map((s: any) => ({ name: toTag(String(s.name ?? '')), content: s.content.trim() }));
+  const user = typeof parsed?.user === 'string' ? parsed.user.trim() : '';
+  return sections.length || user ? { sections, user } : null;
+};
+
+/**
+ * Applies a text transform to every part of a structured prompt.
+ */
+export const mapStructuredPrompt = (prompt: StructuredPrompt, transform: (text: string) => string): StructuredPrompt => ({
+  sections: prompt.sections.map(s => ({ ...s, content: transform(s.content) })),
+  user: transform(prompt.user),
+});
+
+export const systemMessageOf = (prompt: StructuredPrompt) =>
+  prompt.sections.map(s => s.content).join('\n\n');
+
+const xmlBlock = (tag: string, content: string) => `<${tag}>\n${content}\n</${tag}>`;
+
+/**
+ * The parts of a structured prompt as they should be copied separately, in the
+ * given format. JSON formats yield the pieces their API expects.
+ */
+export const promptSections = (prompt: StructuredPrompt, format: OutputFormat): { label: string; content: string }[] => {
+  const system = systemMessageOf(prompt);
+  switch (format) {
+    case 'xml':
+      return [
+        ...prompt.sections.map(s => ({ label: s.name, content: xmlBlock(s.name, s.content) })),
+        ...(prompt.user ? [{ label: USER_TAG, content: xmlBlock(USER_TAG, prompt.user) }] : []),
+      ];
+    case 'messages':
+      return [
+        { label: 'system', content: JSON.stringify({ role: 'system', content: system }, null, 2) },
+        { label: 'user', content: JSON.stringify({ role: 'user', content: prompt.user }, null, 2) },
+      ];
+    case 'gemini':
+      return [
+        { label: 'systemInstruction', content: JSON.stringify({ parts: [{ text: system }] }, null, 2) },
+        { label: 'contents', content: JSON.stringify([{ role: 'user', parts: [{ text: prompt.user }] }], null, 2) },
+      ];
+    default:
+      return [
+        { label: 'System', content: system },
+        { label: 'User', content: prompt.user },
+      ];
+  }
+};
+
+/**
+ * Renders a structured prompt as one copyable text in the given format.
+ */
+export const renderStructuredPrompt = (prompt: StructuredPrompt, format: OutputFormat): string => {
+  const system = systemMessageOf(prompt);
+  switch (format) {
+    case 'split':
+      return `SYSTEM:\n${system}\n\nUSER:\n${prompt.user}`;
+    case 'messages':
+      return JSON.stringify([
+        { role: 'system', content: system },
+        { role: 'user', content: prompt.user },
+      ], null, 2);
+    case 'xml':
+      return promptSections(prompt, 'xml').map(s => s.content).join('\n\n');
+    case 'gemini':
+      return JSON.stringify({
+        systemInstruction: { parts: [{ text: system }] },
+        contents: [{ role: 'user', parts: [{ text: prompt.user }] }],
+      }, null, 2);
+    default:
+      return [system, prompt.user].filter(Boolean).join('\n\n');
+  }
+};
@@ -0,0 +1,231 @@
+import { getStore } from "./storage.ts";
+
+const LINT_SETTINGS_STORAGE_KEY = 'preflight_lint_rules';
+
+export type LintRuleId = 'api-key' | 'credit-card' | 'email' | 'phone' | 'injection';
+
+/** 'block' refuses to send, 'warn' asks first, 'off' skips the rule. */
+export type LintAction = 'block' | 'warn' | 'off';
+
+export type LintSettings = Record<LintRuleId, LintAction>;
+
+interface LintRule {
+  id: LintRuleId;
+  name: string;
+  description: string;
+  defaultAction: LintAction;
+  /** Data rules can be swapped for placeholders; injection phrases are only flagged. */
+  redactable: boolean;
+  /** Used in placeholder names, e.g. {{REDACTED_EMAIL_1}}. */
+  label: string;
+  pattern: RegExp;
+  /** Extra check on a regex match to cut false positives. */
+  accept?: (match: string) => boolean;
+  /** Text the pattern may partly match but that is something else; matches overlapping it are skipped. */
+  ignore?: RegExp;
+}
+
+export interface LintFinding {
+  ruleId: LintRuleId;
+  action: Exclude<LintAction, 'off'>;
+  start: number;
+  end: number;
+  text: string;
+}
+
+const digitsOf = (text: string) => text.replace(/\D/g, '');
+
+// Card numbers carry a Luhn checksum; most other long digit runs fail it.
+const passesLuhn = (text: string) => {
+  const digits = digitsOf(text);
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && sum % 10 === 0;
+};
+
+/**
+ * Rules in priority order: where matches overlap, the earlier rule wins.
+ */
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'api-key',
+    name: 'API keys & secrets',
+    description: 'Google, OpenAI, Anthropic, GitHub, AWS, Slack and Stripe keys, and private key blocks.',
+    defaultAction: 'block',
+    redactable: true,
+    label: 'SECRET',
+    pattern: new RegExp([
+      /AIza[0-9A-Za-z_-]{35}/,
+      /sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/,
+      /gh[pousr]_[A-Za-z0-9]{36,}/,
+      /github_pat_[A-Za-z0-9_]{22,}/,
+      /(?:AKIA|ASIA)[0-9A-Z]{16}/,
+      /xox[abposr]-[A-Za-z0-9-]{10,}/,
+      /[rs]k_live_[0-9A-Za-z]{20,}/,
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/,
+    ].map(r => r.source).join('|'), 'g'),
+  },
+  {
+    id: 'credit-card',
+    name: 'Credit card numbers',
+    description: '13 to 19 digit numbers that pass the card checksum.',
+    defaultAction: 'block',
+    redactable: true,
+    label: 'CARD',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: passesLuhn,
+  },
+  {
+    id: 'email',
+    name: 'Email addresses',
+    description: 'Anything shaped like name@domain.tld.',
+    defaultAction: 'warn',
+    redactable: true,
+    label: 'EMAIL',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    id: 'phone',
+    name: 'Phone numbers',
+    description: 'International or separated numbers with 9 to 15 digits.',
+    defaultAction: 'warn',
+    redactable: true,
+    label: 'PHONE',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,4}){1,4}\b/g,
+    accept: (match) => {
+      const count = digitsOf(match).length;
+      // Bare digit groups like "2024 2025" are far more often dates or counts.
+      return count >= 9 && count <= 15 && (match.startsWith('+') || match.includes('(') || /\d[\s.-]\d/.test(match));
+    },
+    // Dotted-quad IP addresses, such as 192.168.100.200.
+    ignore: /\b\d{1,3}(?:\.\d{1,3}){3}\b/g,
+  },
+  {
+    id: 'injection',
+    name: 'Prompt injection phrases',
+    description: 'Common attempts to override instructions, such as "ignore previous instructions".',
+    defaultAction: 'warn',
+    redactable: false,
+    label: 'INJECTION',
+    pattern: new RegExp([
+      /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:of\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|preceding|system)\s+(?:instructions?|prompts?|rules|directions|messages?)/,
+      /\b(?:reveal|print|show|repeat|output)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|hidden\s+instructions|initial\s+instructions)/,
+      /\byou\s+are\s+now\s+(?:in\s+)?(?:DAN|developer\s+mode|jailbroken|unrestricted)\b/,
+      /\b(?:pretend|act\s+as\s+if)\s+you\s+(?:have\s+no|are\s+free\s+of\s+(?:any\s+)?)\s*(?:restrictions|rules|guidelines|filters)/,
+      /\bnew\s+instructions\s*:/,
+    ].map(r => r.source).join('|'), 'gi'),
+  },
+];
+
+export const DEFAULT_LINT_SETTINGS = Object.fromEntries(
+  LINT_RULES.map(rule => [rule.id, rule.defaultAction])
+) as LintSettings;
+
+export const getLintRule = (id: LintRuleId) => LINT_RULES.find(rule => rule.id === id)!;
+
+/**
+ * Finds sensitive data and injection phrases in a prompt, in text order.
+ * Overlapping matches go to the higher-priority rule; rules set to 'off' are skipped.
+ */
+export const lintPrompt = (text: string, settings: LintSettings): LintFinding[] => {
+  const findings: LintFinding[] = [];
+  const overlaps = (start: number, end: number) => findings.some(f => start < f.end && end > f.start);
+
+  LINT_RULES.forEach(rule => {
+    const action = settings[rule.id] ?? rule.defaultAction;
+    if (action === 'off') return;
+    const ignored = rule.ignore ? [...text.matchAll(rule.ignore)].map(m => ({ start: m.index!, end: m.index! + m[0].length })) : [];
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (rule.accept && !rule.accept(match[0])) continue;
+      if (ignored.some(i => start < i.end && end > i.start)) continue;
+      if (overlaps(start, end)) continue;
+      findings.push({ ruleId: rule.id, action, start, end, text: match[0] });
+    }
+  });
+  return findings.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * A short description of findings for messages, e.g. "email addresses (2), phone numbers (1)".
+ */
+export const summarizeFindings = (findings: LintFinding[]) =>
+  LINT_RULES
+    .map(rule => ({ rule, count: findings.filter(f => f.ruleId === rule.id).length }))
+    .filter(r => r.count > 0)
+    .map(({ rule, count }) => `${rule.name.toLowerCase()} (${count})`)
+    .join(', ');
+
+/** Placeholder -> original value. */
+export type Redactions = Record<string, string>;
+
+/**
+ * Swaps redactable findings for {{REDACTED_…}} placeholders, which the refiner is
+ * told to preserve verbatim so the values can be put back. Repeated values share
+ * a placeholder, and values redacted earlier keep theirs.
+ */
+export const redactFindings = (text: string, findings: LintFinding[], existing: Redactions = {}) => {
+  const redactions = { ...existing };
+  const placeholderFor = (finding: LintFinding) => {
+    const known = Object.keys(redactions).find(p => redactions[p] === finding.text);
+    if (known) return known;
+    const { label } = getLintRule(finding.ruleId);
+    let n = 1;
+    while (`{{REDACTED_${label}_${n}}}` in redactions) n++;
+    const placeholder = `{{REDACTED_${label}_${n}}}`;
+    redactions[placeholder] = finding.text;
+    return placeholder;
+  };
+
+  let result = '';
+  let cursor = 0;
+  findings
+    .filter(f => getLintRule(f.ruleId).redactable)
+    .forEach(finding => {
+      result += text.slice(cursor, finding.start) + placeholderFor(finding);
+      cursor = finding.end;
+    });
+  return { text: result + text.slice(cursor), redactions };
+};
+
+/**
+ * Puts the original values back in place of their placeholders.
+ */
+export const restoreRedactions = (text: string, redactions: Redactions) =>
+  Object.entries(redactions).reduce((result, [placeholder, value]) => result.split(placeholder).join(value), text);
+
+/**
+ * Replaces known values with their placeholders again, e.g. before resending a
+ * restored prompt in a follow-up request. Longer values go first.
+ */
+export const reapplyRedactions = (text: string, redactions: Redactions) =>
+  Object.entries(redactions)
+    .sort((a, b) => b[1].length - a[1].length)
+    .reduce((result, [placeholder, value]) => result.split(value).join(placeholder), text);
+
+export const loadLintSettings = (): LintSettings => {
+  try {
+    const saved = JSON.parse(getStore().getItem(LINT_SETTINGS_STORAGE_KEY) || 'null');
+    if (saved && typeof saved === 'object') {
+      const valid = Object.entries(saved).filter(([id, action]) =>
+        LINT_RULES.some(rule => rule.id === id) && ['block', 'warn', 'off'].includes(action as string)
+      );
+      return { ...DEFAULT_LINT_SETTINGS, ...Object.fromEntries(valid) };
+    }
+  } catch (e) {
+    console.error("Failed to load lint settings");
+  }
+  return DEFAULT_LINT_SETTINGS;
+};
+
+export const saveLintSettings = (settings: LintSettings) => {
+  getStore().setItem(LINT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
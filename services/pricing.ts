@@ -0,0 +1,26 @@
+import { ModelOption, ModelPricing, TokenUsage } from "../types.ts";
+
+// Paid-tier list prices for prompts up to 200k tokens. Check ai.google.dev/pricing when adding models.
+const KNOWN_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+};
+
+/**
+ * The price for a model: its catalog override if set, else the built-in list.
+ * Undefined for models with no known price (such as most local models).
+ */
+export const getModelPricing = (modelId: string, models: ModelOption[] = []): ModelPricing | undefined =>
+  models.find(m => m.id === modelId)?.pricing || KNOWN_PRICING[modelId];
+
+export const estimateCost = (inputTokens: number, outputTokens: number, pricing: ModelPricing) =>
+  (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+
+export const costOfUsage = (usage: TokenUsage, pricing?: ModelPricing): number | undefined =>
+  pricing ? estimateCost(usage.promptTokens, usage.candidatesTokens + usage.thoughtsTokens, pricing) : undefined;
+
+export const formatCost = (usd: number) =>
+  usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
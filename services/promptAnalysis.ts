@@ -0,0 +1,150 @@
+import { CritiqueAnnotation, CritiqueCategory, PromptCritique } from "../types.ts";
+import { ProviderOrKey, resolveProvider } from "./geminiService.ts";
+import { LLMError, toLLMError } from "./providers/llmErrors.ts";
+import { RecoveryOptions, runWithRecovery } from "./retryPolicy.ts";
+
+// `className` marks the span in the editor; `badgeClassName` labels the finding in the list.
+export const CRITIQUE_CATEGORIES: { id: CritiqueCategory; name: string; description: string; className: string; badgeClassName: string }[] = [
+  {
+    id: 'ambiguity', name: 'Ambiguity', description: 'Wording a model could reasonably read more than one way.',
+    className: 'bg-purple-500/30', badgeClassName: 'border-purple-500/30 bg-purple-500/10 text-purple-300',
+  },
+  {
+    id: 'missing-context', name: 'Missing Context', description: 'Information the model needs but is not given.',
+    className: 'bg-blue-500/30', badgeClassName: 'border-blue-500/30 bg-blue-500/10 text-blue-300',
+  },
+  {
+    id: 'conflict', name: 'Conflict', description: 'Instructions that contradict each other or pull in different directions.',
+    className: 'bg-orange-500/30', badgeClassName: 'border-orange-500/30 bg-orange-500/10 text-orange-300',
+  },
+  {
+    id: 'injection', name: 'Injection Surface', description: 'Places where untrusted input could override the instructions.',
+    className: 'bg-pink-500/30', badgeClassName: 'border-pink-500/30 bg-pink-500/10 text-pink-300',
+  },
+];
+
+const ANALYSIS_INSTRUCTION = `You are a senior prompt engineer reviewing a prompt that is used in production and sometimes misbehaves.
+  Do NOT rewrite the prompt. Explain where it can go wrong, as a list of findings in these categories:
+  ${CRITIQUE_CATEGORIES.map(c => `- ${c.id}: ${c.description}`).join('\n  ')}
+
+  Rules:
+  1. Every finding must quote the exact span of the prompt it is about, copied character for character, including punctuation and case. Quote the shortest span that identifies the problem. For missing context, quote the sentence where that context belongs.
+  2. Give a one- or two-sentence explanation of how the span could make a model misbehave.
+  3. When a concrete edit would fix it, give the full replacement text for the quoted span as the suggestion. Otherwise leave the suggestion empty.
+  4. Keep {{variable}} placeholders intact in suggestions. Where a placeholder receives user input, consider whether that input could inject instructions.
+  5. Report real problems only, most severe first. An empty list is a valid answer for a sound prompt.
+  6. Finish with a short summary of the prompt's overall weaknesses.`;
+
+// Plain JSON Schema so every provider's structured-output mode can use it.
+const critiqueSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: CRITIQUE_CATEGORIES.map(c => c.id) },
+          quote: { type: 'string' },
+          explanation: { type: 'string' },
+          suggestion: { type: 'string' },
+        },
+        required: ['category', 'quote', 'explanation', 'suggestion'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['summary', 'findings'],
+  additionalProperties: false,
+};
+
+/**
+ * Finds a quoted span in the text, preferring the occurrence nearest `near`
+ * so a quote that appears twice stays on the one it was reported for.
+ */
+export const locateQuote = (text: string, quote: string, near = 0): { start: number; end: number } | null => {
+  if (!quote) return null;
+  let best = -1;
+  for (let index = text.indexOf(quote); index >= 0; index = text.indexOf(quote, index + 1)) {
+    if (best < 0 || Math.abs(index - near) < Math.abs(best - near)) best = index;
+  }
+  return best < 0 ? null : { start: best, end: best + quote.length };
+};
+
+/**
+ * Applies one finding's suggested edit and drops the finding. The other
+ * findings' positions follow the edit. Returns null when the span is no longer
+ * in the text (for example after it was edited by hand).
+ */
+export const applySuggestion = (
+  text: string,
+  critique: PromptCritique,
+  id: string
+): { text: string; critique: PromptCritique } | null => {
+  const annotation = critique.annotations.find(a => a.id === id);
+  const range = annotation?.suggestion !== undefined ? locateQuote(text, annotation.quote, annotation.start) : null;
+  if (!annotation || annotation.suggestion === undefined || !range) return null;
+  const shift = annotation.suggestion.length - annotation.quote.length;
+  return {
+    text: `${text.slice(0, range.start)}${annotation.suggestion}${text.slice(range.end)}`,
+    critique: {
+      ...critique,
+      annotations: critique.annotations
+        .filter(a => a.id !== id)
+        .map(a => (a.start !== undefined && a.start > range.start ? { ...a, start: a.start + shift } : a)),
+    },
+  };
+};
+
+/**
+ * Critiques a prompt without rewriting it, using structured JSON output.
+ * Findings whose quote cannot be found in the prompt are kept but left unanchored.
+ */
+export const analyzePrompt = async (
+  rawPrompt: string,
+  modelName: string = "gemini-2.5-flash-lite",
+  provider?: ProviderOrKey,
+  recovery?: RecoveryOptions
+): Promise<PromptCritique> => {
+  const llm = resolveProvider(provider);
+
+  try {
+    const { value: { parsed, usage }, model } = await runWithRecovery(modelName, llm.name, async (model) => {
+      const response = await llm.generate({
+        model,
+        messages: [{ role: 'user', text: `PROMPT TO ANALYZE:\n"""\n${rawPrompt}\n"""` }],
+        systemInstruction: ANALYSIS_INSTRUCTION,
+        temperature: 0.2,
+        jsonSchema: critiqueSchema,
+        signal: recovery?.signal,
+      });
+      const parsed = JSON.parse(response.text || '{}');
+      if (typeof parsed.summary !== 'string' || !Array.isArray(parsed.findings)) {
+        throw new LLMError('empty-response', "The model did not return an analysis.");
+      }
+      return { parsed, usage: response.usage };
+    }, recovery);
+
+    const annotations: CritiqueAnnotation[] = parsed.findings
+      .filter((f: any) => f && CRITIQUE_CATEGORIES.some(c => c.id === f.category) && typeof f.explanation === 'string')
+      .map((f: any, index: number) => {
+        const quote = String(f.quote || '');
+        const suggestion = typeof f.suggestion === 'string' && f.suggestion.trim() && f.suggestion !== quote ? f.suggestion : undefined;
+        return {
+          id: `finding-${index}`,
+          category: f.category,
+          quote,
+          start: locateQuote(rawPrompt, quote)?.start,
+          explanation: f.explanation,
+          suggestion,
+        };
+      });
+
+    return { summary: parsed.summary, annotations, model, timestamp: Date.now(), usage };
+  } catch (error: any) {
+    if (recovery?.signal?.aborted) throw error;
+    console.error(`${llm.name} Error:`, error);
+    throw toLLMError(error, llm.name);
+  }
+};
@@ -0,0 +1,115 @@
+import { ModelOption, ProviderConfig } from "../types.ts";
+import { LLMProvider } from "./providers/llmProvider.ts";
+import { createGeminiProvider } from "./providers/geminiProvider.ts";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider.ts";
+import { getStore } from "./storage.ts";
+
+const PROVIDER_CATALOG_STORAGE_KEY = 'provider_catalog';
+
+export const GEMINI_PROVIDER_ID = 'gemini';
+
+// Recommended Gemini 3 series models for text tasks.
+export const DEFAULT_GEMINI_MODELS: ModelOption[] = [
+  { id: 'gemini-3-flash-preview', name: '3 Flash', desc: 'Fast & Balanced' },
+  { id: 'gemini-3-pro-preview', name: '3 Pro', desc: 'Complex Reasoning' },
+  { id: 'gemini-2.5-flash-lite', name: '2.5 Flash Lite', desc: 'Lightweight & Quick' },
+];
+
+const DEFAULT_GEMINI_PROVIDER: ProviderConfig = {
+  id: GEMINI_PROVIDER_ID,
+  kind: 'gemini',
+  name: 'Google Gemini',
+  models: DEFAULT_GEMINI_MODELS,
+};
+
+const isModelOption = (value: any): value is ModelOption =>
+  value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.desc === 'string' &&
+  (value.pricing === undefined ||
+    (typeof value.pricing?.inputPerMillion === 'number' && typeof value.pricing?.outputPerMillion === 'number'));
+
+const isProviderConfig = (value: any): value is ProviderConfig =>
+  value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  (value.kind === 'gemini' || value.kind === 'openai-compatible') &&
+  Array.isArray(value.models) &&
+  value.models.every(isModelOption) &&
+  (value.fallbackModels === undefined ||
+    (Array.isArray(value.fallbackModels) && value.fallbackModels.every((id: unknown) => typeof id === 'string')));
+
+const readSavedCatalog = (): any[] => {
+  try {
+    const parsed = JSON.parse(getStore().getItem(PROVIDER_CATALOG_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to load provider catalog");
+    return [];
+  }
+};
+
+/**
+ * Keys by provider id that earlier versions saved in plain text with the catalog.
+ * They stay where they are until the vault imports them and calls `clearLegacyProviderKeys`.
+ */
+export const loadLegacyProviderKeys = (): Record<string, string> =>
+  Object.fromEntries(
+    readSavedCatalog()
+      .filter(p => p && typeof p.id === 'string' && typeof p.apiKey === 'string' && p.apiKey)
+      .map(p => [p.id, p.apiKey as string])
+  );
+
+/** Rewrites the saved catalog without the plain-text keys of earlier versions. */
+export const clearLegacyProviderKeys = () => {
+  const saved = readSavedCatalog();
+  if (saved.some(p => p && 'apiKey' in p)) {
+    getStore().setItem(PROVIDER_CATALOG_STORAGE_KEY, JSON.stringify(saved.map(({ apiKey, ...config }) => config)));
+  }
+};
+
+/**
+ * Loads the provider catalog. The built-in Gemini provider is always present and first.
+ * Keys saved with the catalog by earlier versions are left out; see `loadLegacyProviderKeys`.
+ */
+export const loadProviderCatalog = (): ProviderConfig[] => {
+  const saved = readSavedCatalog()
+    .filter(isProviderConfig)
+    .map(({ apiKey, ...config }: ProviderConfig & { apiKey?: string }) => config);
+  const gemini = saved.find(p => p.id === GEMINI_PROVIDER_ID) || DEFAULT_GEMINI_PROVIDER;
+  return [{ ...gemini, kind: 'gemini' }, ...saved.filter(p => p.id !== GEMINI_PROVIDER_ID && p.kind === 'openai-compatible')];
+};
+
+/**
+ * Saves the catalog. Keys of earlier versions that the vault hasn't imported yet
+ * are written back with their providers, so editing the catalog doesn't lose them.
+ */
+export const saveProviderCatalog = (providers: ProviderConfig[]) => {
+  const legacyKeys = loadLegacyProviderKeys();
+  getStore().setItem(
+    PROVIDER_CATALOG_STORAGE_KEY,
+    JSON.stringify(providers.map(p => (legacyKeys[p.id] ? { ...p, apiKey: legacyKeys[p.id] } : p)))
+  );
+};
+
+export const createProviderId = () => `provider-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Finds the provider whose catalog contains a model, preferring `preferredId`.
+ */
+export const findProviderForModel = (providers: ProviderConfig[], modelId: string, preferredId?: string) =>
+  providers.find(p => p.id === preferredId && p.models.some(m => m.id === modelId)) ||
+  providers.find(p => p.models.some(m => m.id === modelId));
+
+/**
+ * Instantiates a provider from its configuration. `apiKey` comes from a key
+ * profile; Gemini needs one, OpenAI-compatible providers may work without.
+ */
+export const createProvider = (config: ProviderConfig, apiKey?: string): LLMProvider | undefined => {
+  if (config.kind === 'gemini') {
+    return apiKey ? createGeminiProvider(apiKey) : undefined;
+  }
+  if (!config.baseUrl) return undefined;
+  return createOpenAICompatibleProvider({ name: config.name, baseUrl: config.baseUrl, apiKey });
+};
@@ -0,0 +1,128 @@
+import { ApiError, Content, GenerateContentConfig, GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { TokenUsage } from "../../types.ts";
+import { GenerateRequest, LLMProvider } from "./llmProvider.ts";
+import { LLMError, errorFromStatus, toLLMError } from "./llmErrors.ts";
+
+const toTokenUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined => {
+  if (!metadata) return undefined;
+  const promptTokens = metadata.promptTokenCount || 0;
+  const candidatesTokens = metadata.candidatesTokenCount || 0;
+  const thoughtsTokens = metadata.thoughtsTokenCount || 0;
+  return {
+    promptTokens,
+    candidatesTokens,
+    thoughtsTokens,
+    totalTokens: metadata.totalTokenCount || promptTokens + candidatesTokens + thoughtsTokens,
+  };
+};
+
+const toContents = (request: GenerateRequest): Content[] =>
+  request.messages.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+
+const toConfig = (request: GenerateRequest): GenerateContentConfig => ({
+  systemInstruction: request.systemInstruction,
+  temperature: request.temperature,
+  topP: request.topP,
+  abortSignal: request.signal,
+  ...(request.jsonSchema && {
+    responseMimeType: 'application/json',
+    responseJsonSchema: request.jsonSchema,
+  }),
+});
+
+const BLOCKED_FINISH_REASONS = new Set<string>(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
+/**
+ * Throws when Gemini refused the prompt or cut the answer off for safety reasons.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new LLMError('safety', `Gemini blocked the prompt (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+    throw new LLMError('safety', `Gemini stopped the response for safety reasons (${finishReason}).`);
+  }
+};
+
+/**
+ * The SDK puts the JSON error body in the message; pull out the readable
+ * message and the RetryInfo delay (e.g. "27s") when present.
+ */
+const toGeminiError = (error: any): LLMError => {
+  if (!(error instanceof ApiError)) return toLLMError(error, 'Gemini');
+  let detail = error.message;
+  let retryAfterMs: number | undefined;
+  try {
+    const body = JSON.parse(error.message)?.error;
+    detail = body?.message || detail;
+    const retryInfo = body?.details?.find((d: any) => d?.['@type']?.endsWith('RetryInfo'));
+    const seconds = parseFloat(retryInfo?.retryDelay);
+    if (Number.isFinite(seconds)) retryAfterMs = seconds * 1000;
+  } catch (e) {
+    // Not a JSON body; keep the raw message.
+  }
+  return errorFromStatus('Gemini', error.status, detail, retryAfterMs);
+};
+
+/**
+ * Google Gemini through the GenAI SDK.
+ * A new client is created per provider so the latest API key is always used.
+ */
+export const createGeminiProvider = (apiKey: string): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'Gemini',
+
+    async generate(request) {
+      try {
+        const response = await ai.models.generateContent({
+          model: request.model,
+          contents: toContents(request),
+          config: toConfig(request),
+        });
+        assertNotBlocked(response);
+        // The .text property directly returns the generated string.
+        return { text: response.text || '', usage: toTokenUsage(response.usageMetadata) };
+      } catch (error) {
+        throw toGeminiError(error);
+      }
+    },
+
+    async *stream(request) {
+      try {
+        const stream = await ai.models.generateContentStream({
+          model: request.model,
+          contents: toContents(request),
+          config: toConfig(request),
+        });
+        for await (const chunk of stream) {
+          yield { text: chunk.text, usage: toTokenUsage(chunk.usageMetadata) };
+          assertNotBlocked(chunk);
+        }
+      } catch (error) {
+        throw toGeminiError(error);
+      }
+    },
+
+    async countTokens(request) {
+      const contents = toContents(request);
+      // The Gemini API rejects a system instruction here, so count it as a leading turn.
+      if (request.systemInstruction) {
+        contents.unshift({ role: 'user', parts: [{ text: request.systemInstruction }] });
+      }
+      try {
+        const response = await ai.models.countTokens({
+          model: request.model,
+          contents,
+          config: { abortSignal: request.signal },
+        });
+        return response.totalTokens || 0;
+      } catch (error) {
+        throw toGeminiError(error);
+      }
+    },
+  };
+};
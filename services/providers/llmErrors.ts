@@ -0,0 +1,93 @@
+export type LLMErrorKind =
+  | 'invalid-key'
+  | 'rate-limit'
+  | 'model-not-found'
+  | 'safety'
+  | 'network'
+  | 'empty-response'
+  | 'server'
+  | 'unknown';
+
+interface LLMErrorDetails {
+  status?: number;
+  /** How long the server asked us to wait before retrying (Retry-After or Gemini's RetryInfo). */
+  retryAfterMs?: number;
+}
+
+/**
+ * A provider failure classified by what the user can do about it.
+ */
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: LLMErrorKind, message: string, details: LLMErrorDetails = {}) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/** What an error banner shows: the classified error, or the message of anything else. */
+export const toDisplayError = (error: any): LLMError | string =>
+  error instanceof LLMError ? error : error?.message || "An error occurred";
+
+/** Failures that may succeed if the same request is sent again. */
+export const isTransientError = (error: LLMError) =>
+  error.kind === 'rate-limit' || error.kind === 'network' || error.kind === 'server';
+
+/** Failures where a different (usually cheaper) model may still succeed. */
+export const isFallbackEligible = (error: LLMError) =>
+  error.kind === 'rate-limit' || error.kind === 'model-not-found' || error.kind === 'server' || error.kind === 'empty-response';
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Classifies an HTTP error response. `detail` is the server's own message.
+ */
+export const errorFromStatus = (
+  providerName: string,
+  status: number,
+  detail: string,
+  retryAfterMs?: number
+): LLMError => {
+  const details = { status, retryAfterMs };
+  if (status === 401 || status === 403 || (status === 400 && /api[ _-]?key/i.test(detail))) {
+    return new LLMError('invalid-key', `${providerName} rejected the API key: ${detail}`, details);
+  }
+  if (status === 404) {
+    return new LLMError('model-not-found', `${providerName} could not find the requested model: ${detail}`, details);
+  }
+  if (status === 429) {
+    return new LLMError('rate-limit', `${providerName} rate limit or quota exceeded: ${detail}`, details);
+  }
+  if (status === 408 || status >= 500) {
+    return new LLMError('server', `${providerName} is temporarily unavailable (${status}): ${detail}`, details);
+  }
+  return new LLMError('unknown', `${providerName} request failed (${status}): ${detail}`, details);
+};
+
+/**
+ * Normalizes anything thrown while talking to a provider into an `LLMError`.
+ */
+export const toLLMError = (error: any, providerName: string): LLMError => {
+  if (error instanceof LLMError) return error;
+  const message: string = error?.message || String(error);
+  // fetch() rejects with a TypeError when the request never reached the server (offline, DNS, CORS).
+  if (error instanceof TypeError || /failed to fetch|fetch failed|networkerror|load failed|network request failed/i.test(message)) {
+    return new LLMError('network', `Could not reach ${providerName}. Check your connection${providerName === 'Gemini' ? '' : ', the base URL and that the server allows CORS'}.`);
+  }
+  return new LLMError('unknown', message || `${providerName} encountered an issue.`);
+};
@@ -0,0 +1,44 @@
+import { TokenUsage } from "../../types.ts";
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface GenerateRequest {
+  model: string;
+  messages: ChatMessage[];
+  systemInstruction?: string;
+  temperature?: number;
+  topP?: number;
+  /** When set, the provider is asked for JSON matching this JSON Schema. */
+  jsonSchema?: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export interface GenerateResponse {
+  text: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * A piece of a streamed response. Usage is typically only present on the final chunk.
+ */
+export interface StreamChunk {
+  text?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * A chat-style LLM backend the refinement service can dispatch through.
+ * Implementations report failures as `LLMError` so callers can retry or fall back.
+ */
+export interface LLMProvider {
+  /** Human-readable backend name used in error messages. */
+  name: string;
+  generate(request: GenerateRequest): Promise<GenerateResponse>;
+  /** Yields text deltas as they arrive. Aborting `request.signal` ends the stream. */
+  stream(request: GenerateRequest): AsyncIterable<StreamChunk>;
+  /** Input tokens the request would use. Optional; callers estimate when it is missing. */
+  countTokens?(request: GenerateRequest): Promise<number>;
+}
@@ -0,0 +1,140 @@
+import { TokenUsage } from "../../types.ts";
+import { GenerateRequest, LLMProvider } from "./llmProvider.ts";
+import { LLMError, errorFromStatus, parseRetryAfter, toLLMError } from "./llmErrors.ts";
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  /** e.g. https://api.openai.com/v1, http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp). */
+  baseUrl: string;
+  /** Optional; local servers usually accept any value or none. */
+  apiKey?: string;
+}
+
+const toTokenUsage = (usage: any): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  const promptTokens = usage.prompt_tokens || 0;
+  const thoughtsTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+  // Reasoning tokens are included in completion_tokens; report them separately.
+  const candidatesTokens = Math.max(0, (usage.completion_tokens || 0) - thoughtsTokens);
+  return {
+    promptTokens,
+    candidatesTokens,
+    thoughtsTokens,
+    totalTokens: usage.total_tokens || promptTokens + candidatesTokens + thoughtsTokens,
+  };
+};
+
+const toBody = (request: GenerateRequest, stream: boolean) => ({
+  model: request.model,
+  messages: [
+    ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+    ...request.messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text })),
+  ],
+  temperature: request.temperature,
+  top_p: request.topP,
+  stream,
+  ...(stream && { stream_options: { include_usage: true } }),
+  ...(request.jsonSchema && {
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: request.jsonSchema, strict: true },
+    },
+  }),
+});
+
+// Returns null for comments, keep-alives, the [DONE] marker and anything else that isn't a JSON data line.
+const parseEvent = (line: string): any => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return null;
+  const data = trimmed.replace(/^data:\s*/, '');
+  if (data === '[DONE]') return null;
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Any server implementing the OpenAI chat-completions API, such as a local
+ * llama.cpp or Ollama server, vLLM, or an internal gateway.
+ */
+export const createOpenAICompatibleProvider = ({ name, baseUrl, apiKey }: OpenAICompatibleOptions): LLMProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (request: GenerateRequest, stream: boolean) => {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify(toBody(request, stream)),
+        signal: request.signal,
+      });
+    } catch (error) {
+      throw toLLMError(error, name);
+    }
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const data = await response.json();
+        message = data?.error?.message || data?.error || message;
+      } catch (e) {
+        // Not a JSON error body; keep the status text.
+      }
+      throw errorFromStatus(name, response.status, message, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return response;
+  };
+
+  const assertNotFiltered = (finishReason: unknown) => {
+    if (finishReason === 'content_filter') {
+      throw new LLMError('safety', `${name} stopped the response because of its content filter.`);
+    }
+  };
+
+  return {
+    name,
+
+    async generate(request) {
+      const data = await (await post(request, false)).json();
+      assertNotFiltered(data?.choices?.[0]?.finish_reason);
+      return {
+        text: data?.choices?.[0]?.message?.content || '',
+        usage: toTokenUsage(data?.usage),
+      };
+    },
+
+    async *stream(request) {
+      const response = await post(request, true);
+      if (!response.body) throw new LLMError('empty-response', `${name} returned an empty stream.`);
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (let done = false; !done;) {
+        let chunk: ReadableStreamReadResult<string>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          throw toLLMError(error, name);
+        }
+        done = chunk.done;
+        buffer += chunk.value || '';
+
+        // Server-sent events are separated by newlines; keep the trailing partial line
+        // until the stream ends, then parse it too in case the last event has no newline.
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+        for (const line of lines) {
+          const event = parseEvent(line);
+          if (!event) continue;
+          yield { text: event?.choices?.[0]?.delta?.content || undefined, usage: toTokenUsage(event?.usage) };
+          assertNotFiltered(event?.choices?.[0]?.finish_reason);
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import { LLMError, isFallbackEligible, isTransientError, toLLMError } from "./providers/llmErrors.ts";
+
+const MAX_ATTEMPTS_PER_MODEL = 3;
+const BASE_DELAY_MS = 1000;
+// Longer waits (e.g. an exhausted daily quota) are not worth blocking the UI for.
+const MAX_DELAY_MS = 30000;
+
+/**
+ * Reported before every retry or fallback so the UI can explain the wait.
+ */
+export interface RetryNotice {
+  /** The model whose request failed. */
+  model: string;
+  error: LLMError;
+  /** Set when the same model is retried: the upcoming attempt number and the wait before it. */
+  attempt?: number;
+  delayMs?: number;
+  /** Set when switching to the next model of the fallback chain instead. */
+  fallbackModel?: string;
+}
+
+export interface RecoveryOptions {
+  /** Models tried in order after the requested one fails with a rate limit, missing model or server error. */
+  fallbackModels?: string[];
+  onRetry?: (notice: RetryNotice) => void;
+  /** Aborting cancels any pending backoff wait. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Exponential backoff with jitter, unless the server said how long to wait.
+ */
+const backoffDelay = (attempt: number, error: LLMError) =>
+  error.retryAfterMs ?? Math.round(Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5));
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+/**
+ * Runs a request, retrying transient failures with backoff (honoring Retry-After)
+ * and then walking the fallback chain. Resolves with the model that succeeded.
+ */
+export const runWithRecovery = async <T>(
+  modelName: string,
+  providerName: string,
+  run: (model: string) => Promise<T>,
+  { fallbackModels = [], onRetry, signal }: RecoveryOptions = {}
+): Promise<{ value: T; model: string }> => {
+  const chain = [modelName, ...fallbackModels.filter(m => m !== modelName)];
+  let lastError: LLMError | undefined;
+
+  for (let index = 0; index < chain.length; index++) {
+    const model = chain[index];
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_MODEL; attempt++) {
+      try {
+        return { value: await run(model), model };
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        lastError = toLLMError(e, providerName);
+        const delayMs = backoffDelay(attempt, lastError);
+        if (!isTransientError(lastError) || attempt === MAX_ATTEMPTS_PER_MODEL || delayMs > MAX_DELAY_MS) break;
+        onRetry?.({ model, error: lastError, attempt: attempt + 1, delayMs });
+        await sleep(delayMs, signal);
+      }
+    }
+
+    const next = chain[index + 1];
+    if (!next || !isFallbackEligible(lastError!)) break;
+    onRetry?.({ model, error: lastError!, fallbackModel: next });
+  }
+
+  throw lastError;
+};
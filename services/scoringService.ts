@@ -0,0 +1,117 @@
+import { CriterionScore, PromptScorecard, RubricCriterion } from "../types.ts";
+import { ProviderOrKey, resolveProvider } from "./geminiService.ts";
+import { LLMError, toLLMError } from "./providers/llmErrors.ts";
+import { RecoveryOptions, runWithRecovery } from "./retryPolicy.ts";
+
+/**
+ * The grading rubric. It mirrors the five principles the refiner is instructed to follow.
+ */
+export const RUBRIC: { id: RubricCriterion; name: string; description: string }[] = [
+  { id: 'clarity', name: 'Clarity & Precision', description: 'The prompt is unambiguous and states exactly what is wanted.' },
+  { id: 'context', name: 'Contextual Depth', description: 'The prompt gives the context needed to understand the underlying goal.' },
+  { id: 'formatting', name: 'Formatting', description: 'The prompt uses structure (headings, lists) where it helps readability.' },
+  { id: 'role', name: 'Role Play', description: 'The prompt assigns a fitting persona or expertise where useful.' },
+  { id: 'negativeConstraints', name: 'Negative Constraints', description: 'The prompt says what NOT to do where relevant.' },
+];
+
+const JUDGE_INSTRUCTION = `You are a strict, impartial evaluator of prompts written for Large Language Models.
+  You will receive an ORIGINAL prompt and a REFINED version of it. Grade each one independently against every rubric criterion on an integer scale from 1 (very poor) to 10 (excellent).
+  Give a one-sentence justification per score. Do not reward length for its own sake, and score a criterion low when it is missing even if the prompt is otherwise good.
+
+  Rubric:
+  ${RUBRIC.map((c, i) => `${i + 1}. ${c.name} (${c.id}): ${c.description}`).join('\n  ')}`;
+
+// Plain JSON Schema so every provider's structured-output mode can use it.
+const scorecardSchema = {
+  type: 'object',
+  properties: {
+    criteria: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          criterion: { type: 'string', enum: RUBRIC.map(c => c.id) },
+          originalScore: { type: 'integer', minimum: 1, maximum: 10 },
+          originalJustification: { type: 'string' },
+          refinedScore: { type: 'integer', minimum: 1, maximum: 10 },
+          refinedJustification: { type: 'string' },
+        },
+        required: ['criterion', 'originalScore', 'originalJustification', 'refinedScore', 'refinedJustification'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['criteria'],
+  additionalProperties: false,
+};
+
+const clampScore = (value: unknown) => Math.min(10, Math.max(1, Math.round(Number(value) || 1)));
+
+/**
+ * Grades the original and refined prompts against the rubric using structured JSON output.
+ * Criteria are returned in rubric order; any the model omitted are dropped. A response
+ * without any usable score counts as empty, so it can fall back to another model.
+ */
+export const scorePrompts = async (
+  original: string,
+  refined: string,
+  modelName: string = "gemini-2.5-flash-lite",
+  provider?: ProviderOrKey,
+  recovery?: RecoveryOptions
+): Promise<PromptScorecard> => {
+  const llm = resolveProvider(provider);
+
+  try {
+    const { value: { criteria, usage }, model } = await runWithRecovery(modelName, llm.name, async (model) => {
+      const response = await llm.generate({
+        model,
+        messages: [{ role: 'user', text: `ORIGINAL PROMPT:\n"""\n${original}\n"""\n\nREFINED PROMPT:\n"""\n${refined}\n"""` }],
+        systemInstruction: JUDGE_INSTRUCTION,
+        temperature: 0,
+        jsonSchema: scorecardSchema,
+        signal: recovery?.signal,
+      });
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(response.text || '{}');
+      } catch {
+        throw new LLMError('empty-response', "The evaluator did not return valid JSON.");
+      }
+      const byCriterion = new Map<string, any>(
+        (Array.isArray(parsed?.criteria) ? parsed.criteria : [])
+          .filter((c: any) => c && typeof c === 'object')
+          .map((c: any) => [c.criterion, c])
+      );
+      const criteria: CriterionScore[] = RUBRIC
+        .filter(c => byCriterion.has(c.id))
+        .map(c => {
+          const raw = byCriterion.get(c.id);
+          return {
+            criterion: c.id,
+            originalScore: clampScore(raw.originalScore),
+            originalJustification: String(raw.originalJustification || ''),
+            refinedScore: clampScore(raw.refinedScore),
+            refinedJustification: String(raw.refinedJustification || ''),
+          };
+        });
+
+      if (criteria.length === 0) {
+        throw new LLMError('empty-response', "The evaluator returned no scores.");
+      }
+      return { criteria, usage: response.usage };
+    }, recovery);
+
+    return { criteria, model, timestamp: Date.now(), usage };
+  } catch (error: any) {
+    if (recovery?.signal?.aborted) throw error;
+    console.error(`${llm.name} Error:`, error);
+    throw toLLMError(error, llm.name);
+  }
+};
+
+/**
+ * Criteria where the refined prompt scored lower than the original.
+ */
+export const findRegressions = (scorecard: PromptScorecard): CriterionScore[] =>
+  scorecard.criteria.filter(c => c.refinedScore < c.originalScore);
@@ -0,0 +1,145 @@
+import { GoalDefinition, RefinementHistory, RefinementSettings } from "../types.ts";
+import { isGoalDefinition, isRefinementSettings } from "./goalRegistry.ts";
+
+const SHARE_PREFIX = '#share=';
+const SHARE_VERSION = 1;
+
+// Long fragments get truncated by chat tools and ticket systems.
+export const MAX_SHARE_FRAGMENT_LENGTH = 8000;
+// Guards against decompression bombs in crafted links.
+const MAX_DECOMPRESSED_BYTES = 512 * 1024;
+
+/**
+ * The data carried in a share link. Custom goals travel with their definition
+ * so the recipient can reproduce the refinement.
+ */
+export interface SharePayload {
+  v: number;
+  original: string;
+  refined: string;
+  goal: string;
+  goalId?: string;
+  goalDefinition?: GoalDefinition;
+  /** Combined goals and controls; only the primary goal's definition travels with the link. */
+  settings?: RefinementSettings;
+  model?: string;
+}
+
+const OVERSIZE_MESSAGE = "This share link is too large to open.";
+const CORRUPTED_MESSAGE = "This share link is corrupted or incomplete. Ask the sender to copy it again.";
+
+class OversizeShareError extends Error {
+  constructor() {
+    super(OVERSIZE_MESSAGE);
+  }
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const readAll = async (stream: ReadableStream<Uint8Array>, limit: number) => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new OversizeShareError();
+    }
+    chunks.push(value);
+  }
+  const result = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
+
+const compress = (text: string) =>
+  readAll(new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw')), Infinity);
+
+const decompress = (bytes: Uint8Array) =>
+  readAll(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw')), MAX_DECOMPRESSED_BYTES);
+
+/**
+ * Builds a share URL for a history entry. The payload is compressed into the
+ * URL fragment, so it is never sent to a server. Throws when the link would be too long.
+ */
+export const createShareUrl = async (entry: RefinementHistory, goal?: GoalDefinition): Promise<string> => {
+  const payload: SharePayload = {
+    v: SHARE_VERSION,
+    original: entry.original,
+    refined: entry.refined,
+    goal: entry.goal,
+    goalId: entry.goalId,
+    goalDefinition: goal && !goal.builtIn ? goal : undefined,
+    settings: entry.settings,
+    model: entry.model,
+  };
+  const fragment = SHARE_PREFIX + toBase64Url(await compress(JSON.stringify(payload)));
+  if (fragment.length > MAX_SHARE_FRAGMENT_LENGTH) {
+    throw new Error(`This prompt is too long to share as a link (${fragment.length} of ${MAX_SHARE_FRAGMENT_LENGTH} characters). Export it as a bundle instead.`);
+  }
+  return `${window.location.origin}${window.location.pathname}${window.location.search}${fragment}`;
+};
+
+export const hasShareFragment = (hash: string) => hash.startsWith(SHARE_PREFIX);
+
+/**
+ * Decodes a share fragment. Returns null when the hash is not a share link and
+ * throws a user-facing error when it is corrupted or oversize.
+ */
+export const readShareFragment = async (hash: string): Promise<SharePayload | null> => {
+  if (!hasShareFragment(hash)) return null;
+
+  const encoded = hash.slice(SHARE_PREFIX.length);
+  if (encoded.length > MAX_SHARE_FRAGMENT_LENGTH) {
+    throw new Error(OVERSIZE_MESSAGE);
+  }
+
+  let payload: any;
+  try {
+    const json = new TextDecoder().decode(await decompress(fromBase64Url(encoded)));
+    payload = JSON.parse(json);
+  } catch (e: any) {
+    if (e instanceof OversizeShareError) throw e;
+    throw new Error(CORRUPTED_MESSAGE);
+  }
+
+  if (
+    !payload ||
+    typeof payload.original !== 'string' ||
+    typeof payload.refined !== 'string' ||
+    typeof payload.goal !== 'string'
+  ) {
+    throw new Error(CORRUPTED_MESSAGE);
+  }
+  if (typeof payload.v !== 'number' || payload.v > SHARE_VERSION) {
+    throw new Error("This share link was made by a newer version of PromptPerfect.");
+  }
+
+  return {
+    v: payload.v,
+    original: payload.original,
+    refined: payload.refined,
+    goal: payload.goal,
+    goalId: typeof payload.goalId === 'string' ? payload.goalId : undefined,
+    goalDefinition: isGoalDefinition(payload.goalDefinition) ? { ...payload.goalDefinition, builtIn: false } : undefined,
+    settings: isRefinementSettings(payload.settings) ? payload.settings : undefined,
+    model: typeof payload.model === 'string' ? payload.model : undefined,
+  };
+};
@@ -0,0 +1,113 @@
+import { getStore } from "./storage.ts";
+
+const SHORTCUTS_STORAGE_KEY = 'keyboard_shortcuts';
+
+export type ShortcutActionId =
+  | 'palette'
+  | 'refine'
+  | 'copy-result'
+  | 'cycle-goal'
+  | 'cycle-model'
+  | 'open-keys'
+  | 'clear-input';
+
+/**
+ * A key combination such as "Mod+Enter". "Mod" is Cmd on macOS and Ctrl
+ * elsewhere, so the defaults feel native on both. An empty string is unbound.
+ */
+export type ShortcutBinding = string;
+
+export type ShortcutBindings = Record<ShortcutActionId, ShortcutBinding>;
+
+export const SHORTCUT_ACTIONS: { id: ShortcutActionId; name: string; defaultBinding: ShortcutBinding }[] = [
+  { id: 'palette', name: 'Open command palette', defaultBinding: 'Mod+K' },
+  { id: 'refine', name: 'Optimize prompt', defaultBinding: 'Mod+Enter' },
+  { id: 'copy-result', name: 'Copy refined prompt', defaultBinding: 'Alt+C' },
+  { id: 'cycle-goal', name: 'Next refinement goal', defaultBinding: 'Alt+G' },
+  { id: 'cycle-model', name: 'Next model', defaultBinding: 'Alt+M' },
+  { id: 'open-keys', name: 'Open API key settings', defaultBinding: 'Alt+K' },
+  { id: 'clear-input', name: 'Clear raw prompt', defaultBinding: 'Alt+Shift+Backspace' },
+];
+
+export const DEFAULT_SHORTCUT_BINDINGS = Object.fromEntries(
+  SHORTCUT_ACTIONS.map(action => [action.id, action.defaultBinding])
+) as ShortcutBindings;
+
+export const isMacPlatform = () =>
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent);
+
+/** The parts of a DOM or React keyboard event a binding is read from. */
+type KeyPress = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock', 'Fn', 'OS'];
+
+// Letters and digits come from the physical key, since Alt and Option change the character typed.
+const keyName = (e: KeyPress) => {
+  if (/^Key[A-Z]$/.test(e.code)) return e.code.slice(3);
+  if (/^Digit\d$/.test(e.code)) return e.code.slice(5);
+  if (e.key === ' ') return 'Space';
+  return e.key.length === 1 ? e.key.toUpperCase() : e.key;
+};
+
+/**
+ * The binding a key press spells out, or null for a lone modifier key.
+ */
+export const bindingFromEvent = (e: KeyPress): ShortcutBinding | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const isMac = isMacPlatform();
+  const parts: string[] = [];
+  if (isMac ? e.metaKey : e.ctrlKey) parts.push('Mod');
+  if (isMac && e.ctrlKey) parts.push('Ctrl');
+  if (!isMac && e.metaKey) parts.push('Meta');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(keyName(e));
+  return parts.join('+');
+};
+
+/**
+ * Shortcuts fire while typing in the prompt, so a binding needs a modifier
+ * other than Shift (or a function key) to stay out of the way of text entry.
+ */
+export const isUsableBinding = (binding: ShortcutBinding) => {
+  const parts = binding.split('+');
+  const key = parts[parts.length - 1];
+  return parts.some(p => p === 'Mod' || p === 'Ctrl' || p === 'Meta' || p === 'Alt') || /^F\d{1,2}$/.test(key);
+};
+
+export const findShortcutAction = (bindings: ShortcutBindings, e: KeyPress): ShortcutActionId | undefined => {
+  const binding = bindingFromEvent(e);
+  if (!binding) return undefined;
+  return SHORTCUT_ACTIONS.find(action => bindings[action.id] === binding)?.id;
+};
+
+const MAC_SYMBOLS: Record<string, string> = { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧', Enter: '↩', Backspace: '⌫' };
+
+/** A binding as shown to the user, e.g. "⌘↩" on macOS and "Ctrl+Enter" elsewhere. */
+export const formatBinding = (binding: ShortcutBinding) => {
+  if (!binding) return '';
+  const parts = binding.split('+');
+  if (isMacPlatform()) return parts.map(p => MAC_SYMBOLS[p] || p).join('');
+  return parts.map(p => (p === 'Mod' ? 'Ctrl' : p)).join('+');
+};
+
+export const loadShortcutBindings = (): ShortcutBindings => {
+  try {
+    const saved = JSON.parse(getStore().getItem(SHORTCUTS_STORAGE_KEY) || 'null');
+    if (saved && typeof saved === 'object') {
+      const valid = Object.entries(saved).filter(([id, binding]) =>
+        SHORTCUT_ACTIONS.some(action => action.id === id) &&
+        typeof binding === 'string' &&
+        (binding === '' || isUsableBinding(binding))
+      );
+      return { ...DEFAULT_SHORTCUT_BINDINGS, ...Object.fromEntries(valid) };
+    }
+  } catch (e) {
+    console.error("Failed to load keyboard shortcuts");
+  }
+  return DEFAULT_SHORTCUT_BINDINGS;
+};
+
+export const saveShortcutBindings = (bindings: ShortcutBindings) => {
+  getStore().setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(bindings));
+};
@@ -0,0 +1,32 @@
+/**
+ * The key-value persistence the settings modules need. The browser uses
+ * localStorage; elsewhere (such as the CLI) an in-memory store is used unless
+ * another one is installed with `setStore`.
+ */
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export const createMemoryStore = (initial: Record<string, string> = {}): KeyValueStore => {
+  const values = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => { values.set(key, value); },
+    removeItem: (key) => { values.delete(key); },
+  };
+};
+
+let store: KeyValueStore | undefined;
+
+export const getStore = (): KeyValueStore => {
+  if (!store) {
+    store = typeof localStorage !== 'undefined' ? localStorage : createMemoryStore();
+  }
+  return store;
+};
+
+export const setStore = (next: KeyValueStore) => {
+  store = next;
+};
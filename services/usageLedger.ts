@@ -0,0 +1,233 @@
+import { ModelOption, RefinementHistory, TokenUsage } from "../types.ts";
+import { costOfUsage, formatCost, getModelPricing } from "./pricing.ts";
+import { getStore } from "./storage.ts";
+
+const BUDGET_STORAGE_KEY = 'usage_budget';
+const LEDGER_STORAGE_KEY = 'usage_ledger';
+// Used for cost estimates until a model has produced some output of its own.
+const DEFAULT_OUTPUT_TOKENS = 800;
+
+/** The feature that made a billed call. */
+export type UsageSource = 'refine' | 'revise' | 'compare' | 'batch' | 'score' | 'try-it' | 'analyze';
+
+export const USAGE_SOURCES: { id: UsageSource; name: string }[] = [
+  { id: 'refine', name: 'Refine' },
+  { id: 'revise', name: 'Revise' },
+  { id: 'compare', name: 'Compare' },
+  { id: 'batch', name: 'Batch' },
+  { id: 'score', name: 'Score' },
+  { id: 'try-it', name: 'Try It' },
+  { id: 'analyze', name: 'Analyze' },
+];
+
+/**
+ * One billed call, kept in the ledger even after the entry it produced is deleted.
+ */
+export interface UsageRecord {
+  timestamp: number;
+  model: string;
+  /** Empty for calls that don't refine towards a goal, such as an analysis. */
+  goal: string;
+  /** Undefined for records seeded from the library. */
+  source?: UsageSource;
+  usage: TokenUsage;
+  latencyMs?: number;
+  /** Undefined when the model has no known price. */
+  cost?: number;
+  /** Set when the provider reported no usage, e.g. for a stopped stream, and the tokens were estimated from the text. */
+  estimated?: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+  cost: number;
+  /** Calls whose model has no known price and so are missing from `cost`. */
+  unpricedCalls: number;
+  /** Calls counted from estimated rather than reported tokens. */
+  estimatedCalls: number;
+  averageLatencyMs?: number;
+}
+
+export type BudgetPeriod = 'day' | 'month';
+
+export interface UsageBudget {
+  enabled: boolean;
+  /** USD per period. */
+  limit: number;
+  period: BudgetPeriod;
+  /** 'warn' asks for confirmation; 'block' refuses the request. */
+  mode: 'warn' | 'block';
+}
+
+export const DEFAULT_BUDGET: UsageBudget = { enabled: false, limit: 5, period: 'month', mode: 'warn' };
+
+export const isUsage = (value: any): value is TokenUsage =>
+  value && ['promptTokens', 'candidatesTokens', 'thoughtsTokens', 'totalTokens'].every(k => typeof value[k] === 'number');
+
+const isUsageRecord = (value: any): value is UsageRecord =>
+  value &&
+  typeof value.timestamp === 'number' &&
+  typeof value.model === 'string' &&
+  typeof value.goal === 'string' &&
+  isUsage(value.usage) &&
+  (value.cost === undefined || typeof value.cost === 'number') &&
+  (value.estimated === undefined || typeof value.estimated === 'boolean');
+
+/**
+ * Prices a call at today's rates, so later price changes don't rewrite past spend.
+ */
+export const createUsageRecord = (
+  source: UsageSource,
+  model: string,
+  goal: string,
+  usage: TokenUsage,
+  models: ModelOption[],
+  latencyMs?: number
+): UsageRecord => ({
+  timestamp: Date.now(),
+  model,
+  goal,
+  source,
+  usage,
+  latencyMs,
+  cost: costOfUsage(usage, getModelPricing(model, models)),
+});
+
+/**
+ * Token counts for a call the provider didn't report usage for.
+ */
+export const estimatedUsage = (promptTokens: number, outputTokens: number): TokenUsage => ({
+  promptTokens,
+  candidatesTokens: outputTokens,
+  thoughtsTokens: 0,
+  totalTokens: promptTokens + outputTokens,
+});
+
+/**
+ * Flattens the library into billed calls. Revisions without usage (older entries,
+ * imports) are skipped. Only used to seed the ledger for libraries that predate it.
+ */
+export const collectUsage = (history: RefinementHistory[], models: ModelOption[]): UsageRecord[] =>
+  history.flatMap(entry =>
+    (entry.revisions || [])
+      .filter(r => isUsage(r.usage))
+      .map(r => {
+        const model = r.model || entry.model || 'unknown';
+        return {
+          timestamp: r.timestamp,
+          model,
+          goal: entry.goal,
+          usage: r.usage!,
+          latencyMs: r.latencyMs,
+          cost: costOfUsage(r.usage!, getModelPricing(model, models)),
+        };
+      })
+  );
+
+export const sumUsage = (records: UsageRecord[]): UsageTotals => {
+  const timed = records.filter(r => typeof r.latencyMs === 'number');
+  return {
+    calls: records.length,
+    promptTokens: records.reduce((sum, r) => sum + r.usage.promptTokens, 0),
+    outputTokens: records.reduce((sum, r) => sum + r.usage.candidatesTokens, 0),
+    thoughtsTokens: records.reduce((sum, r) => sum + r.usage.thoughtsTokens, 0),
+    totalTokens: records.reduce((sum, r) => sum + r.usage.totalTokens, 0),
+    cost: records.reduce((sum, r) => sum + (r.cost || 0), 0),
+    unpricedCalls: records.filter(r => r.cost === undefined).length,
+    estimatedCalls: records.filter(r => r.estimated).length,
+    averageLatencyMs: timed.length ? timed.reduce((sum, r) => sum + r.latencyMs!, 0) / timed.length : undefined,
+  };
+};
+
+/**
+ * Totals per group, most expensive (then most tokens) first.
+ */
+export const groupUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string) => {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(r => {
+    const key = keyOf(r);
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, totals: sumUsage(group) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.totalTokens - a.totals.totalTokens);
+};
+
+/** Local calendar day, e.g. "2025-06-01". */
+export const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const periodStart = (period: BudgetPeriod, now: number) => {
+  const date = new Date(now);
+  return period === 'day'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+    : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export const spentInPeriod = (records: UsageRecord[], period: BudgetPeriod, now = Date.now()) => {
+  const start = periodStart(period, now);
+  return records.filter(r => r.timestamp >= start).reduce((sum, r) => sum + (r.cost || 0), 0);
+};
+
+/**
+ * Expected output tokens for a model: its average so far, or a default.
+ */
+export const estimateOutputTokens = (records: UsageRecord[], model: string) => {
+  const own = records.filter(r => r.model === model);
+  if (own.length === 0) return DEFAULT_OUTPUT_TOKENS;
+  return Math.round(own.reduce((sum, r) => sum + r.usage.candidatesTokens + r.usage.thoughtsTokens, 0) / own.length);
+};
+
+/**
+ * Explains why a request with the given estimated cost would exceed the budget, or returns null.
+ */
+export const checkBudget = (budget: UsageBudget, records: UsageRecord[], estimatedCost: number, now = Date.now()): string | null => {
+  if (!budget.enabled) return null;
+  const spent = spentInPeriod(records, budget.period, now);
+  if (spent + estimatedCost <= budget.limit) return null;
+  const label = budget.period === 'day' ? 'daily' : 'monthly';
+  return `This request (est. ${formatCost(estimatedCost)}) would exceed your ${label} budget of ${formatCost(budget.limit)}: ${formatCost(spent)} already spent.`;
+};
+
+export const hasUsageLedger = () => getStore().getItem(LEDGER_STORAGE_KEY) !== null;
+
+export const loadUsageLedger = (): UsageRecord[] => {
+  try {
+    const saved = JSON.parse(getStore().getItem(LEDGER_STORAGE_KEY) || '[]');
+    if (Array.isArray(saved)) return saved.filter(isUsageRecord);
+  } catch (e) {
+    console.error("Failed to load usage ledger");
+  }
+  return [];
+};
+
+export const saveUsageLedger = (records: UsageRecord[]) => {
+  try {
+    getStore().setItem(LEDGER_STORAGE_KEY, JSON.stringify(records));
+  } catch (e) {
+    // Usually the storage quota. The records stay in memory for this session.
+    console.error("Failed to save usage ledger", e);
+  }
+};
+
+export const loadUsageBudget = (): UsageBudget => {
+  try {
+    const saved = JSON.parse(getStore().getItem(BUDGET_STORAGE_KEY) || 'null');
+    if (saved && typeof saved.limit === 'number') {
+      return { ...DEFAULT_BUDGET, ...saved };
+    }
+  } catch (e) {
+    console.error("Failed to load usage budget");
+  }
+  return DEFAULT_BUDGET;
+};
+
+export const saveUsageBudget = (budget: UsageBudget) => {
+  getStore().setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
@@ -8,10 +8,241 @@ export enum RefinementGoal {
   STRUCTURED = 'Highly Structured/JSON'
 }
 
+/**
+ * A refinement goal, either built in or created by the user.
+ */
+export interface GoalDefinition {
+  id: string;
+  name: string;
+  /** Appended to the system instruction as the SPECIFIC GOAL. */
+  instruction: string;
+  /** Replaces the default list of prompt engineering principles when set. */
+  basePrinciples?: string;
+  temperature: number;
+  topP: number;
+  builtIn?: boolean;
+}
+
+/** How freely the refiner may change the raw prompt. */
+export type RewriteIntensity = 'polish' | 'balanced' | 'rewrite';
+
+/** Length of the refined prompt relative to the raw one; 'auto' leaves it to the goal. */
+export type TargetLength = 'auto' | 'shorter' | 'similar' | 'longer';
+
+/** 1 = low, 2 = normal, 3 = high emphasis. */
+export type GoalWeight = 1 | 2 | 3;
+
+export interface WeightedGoal {
+  goalId: string;
+  weight: GoalWeight;
+}
+
+/**
+ * Everything besides the raw prompt that shapes a refinement. Recorded on
+ * history entries so a result can be reproduced.
+ */
+export interface RefinementSettings {
+  /** In priority order: where goals conflict, the earlier one wins. */
+  goals: WeightedGoal[];
+  intensity: RewriteIntensity;
+  length: TargetLength;
+  /** Language to write the refined prompt in; empty keeps the raw prompt's language. */
+  language: string;
+}
+
+/**
+ * Price in USD per million tokens. Thinking tokens are billed as output.
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface ModelOption {
+  id: string;
+  name: string;
+  desc: string;
+  /** Overrides the built-in price list, e.g. for models served by another provider. */
+  pricing?: ModelPricing;
+}
+
+export type ProviderKind = 'gemini' | 'openai-compatible';
+
+/**
+ * A configured LLM backend and its user-editable model catalog.
+ */
+export interface ProviderConfig {
+  id: string;
+  kind: ProviderKind;
+  name: string;
+  /** Chat-completions base URL; only used by OpenAI-compatible providers. */
+  baseUrl?: string;
+  models: ModelOption[];
+  /** Model ids tried in order when the selected model is rate limited, missing or unavailable. */
+  fallbackModels?: string[];
+}
+
+/**
+ * Token counts reported by the API for a single call.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  candidatesTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * How a refinement ended. 'aborted' means the user stopped the stream,
+ * 'partial' means the stream failed after some output had arrived.
+ */
+export type RefinementStatus = 'complete' | 'partial' | 'aborted';
+
+/**
+ * How a refined prompt is laid out for the API it will be pasted into.
+ * 'text' is a single block; the others are rendered from a StructuredPrompt.
+ */
+export type OutputFormat = 'text' | 'split' | 'messages' | 'xml' | 'gemini';
+
+export interface PromptSection {
+  /** Short snake_case name, e.g. 'role' or 'output_format'. Used as the XML tag. */
+  name: string;
+  content: string;
+}
+
+/**
+ * A refined prompt as returned by the model's structured output: the parts of
+ * the system message, and the user message that goes with it.
+ */
+export interface StructuredPrompt {
+  sections: PromptSection[];
+  user: string;
+}
+
+/**
+ * Reference text the refiner reads alongside the raw prompt: pasted text or an uploaded file.
+ */
+export interface DocumentAttachment {
+  id: string;
+  kind: 'document';
+  name: string;
+  content: string;
+}
+
+/**
+ * An input -> output pair showing what the prompt should produce.
+ */
+export interface ExampleAttachment {
+  id: string;
+  kind: 'example';
+  name: string;
+  input: string;
+  output: string;
+  /** Copied into the refined prompt as a few-shot example instead of only informing the refiner. */
+  embed: boolean;
+}
+
+export type PromptAttachment = DocumentAttachment | ExampleAttachment;
+
+/**
+ * One version of a refined prompt in an iterative refine session.
+ */
+export interface PromptRevision {
+  text: string;
+  // The follow-up that produced this version; absent for the initial refinement.
+  instruction?: string;
+  status?: RefinementStatus;
+  timestamp: number;
+  /** The model that produced this version; older revisions fall back to the entry's model. */
+  model?: string;
+  /** Usage reported by the API for the call that produced this version. */
+  usage?: TokenUsage;
+  latencyMs?: number;
+  /** Present when the entry uses a structured output format; `text` is its rendering. */
+  structured?: StructuredPrompt;
+}
+
+export type RubricCriterion = 'clarity' | 'context' | 'formatting' | 'role' | 'negativeConstraints';
+
+export interface CriterionScore {
+  criterion: RubricCriterion;
+  originalScore: number;
+  originalJustification: string;
+  refinedScore: number;
+  refinedJustification: string;
+}
+
+/**
+ * Rubric grades for a raw prompt and its refinement, scored 1-10 per criterion.
+ */
+export interface PromptScorecard {
+  criteria: CriterionScore[];
+  model: string;
+  timestamp: number;
+  usage?: TokenUsage;
+}
+
+export type CritiqueCategory = 'ambiguity' | 'missing-context' | 'conflict' | 'injection';
+
+/**
+ * One finding of a prompt analysis, anchored to an exact span of the analyzed text.
+ */
+export interface CritiqueAnnotation {
+  id: string;
+  category: CritiqueCategory;
+  /** The span the finding is about, quoted verbatim from the prompt. */
+  quote: string;
+  /** Where the quote was found in the analyzed text; unset when the model misquoted it. */
+  start?: number;
+  explanation: string;
+  /** Replacement text for the quoted span, when the model suggests an edit. */
+  suggestion?: string;
+}
+
+/**
+ * A critique of a prompt as written, returned by Analyze mode instead of a rewrite.
+ */
+export interface PromptCritique {
+  summary: string;
+  annotations: CritiqueAnnotation[];
+  model: string;
+  timestamp: number;
+  usage?: TokenUsage;
+}
+
+export type ABVerdict = 'original' | 'refined' | 'tie';
+
+/**
+ * A user's judgement after running the original and refined prompts side by side.
+ */
+export interface ABTestRating {
+  model: string;
+  verdict: ABVerdict;
+  timestamp: number;
+}
+
 export interface RefinementHistory {
   id: string;
   original: string;
   refined: string;
-  goal: RefinementGoal;
+  // Display name of the goal at the time of refinement; the primary goal when several were combined.
+  goal: string;
+  goalId?: string;
+  // Absent on entries saved before goal composition; they used their goal with the default controls.
+  settings?: RefinementSettings;
+  model?: string;
+  providerId?: string;
+  // Absent for plain text, including all entries saved before output formats existed.
+  outputFormat?: OutputFormat;
+  /** Reference material sent with the prompt; revisions send it again. */
+  attachments?: PromptAttachment[];
   timestamp: number;
+  // Entries saved before streaming was introduced have no status and are complete.
+  status?: RefinementStatus;
+  // Full revision chain, oldest first. `refined` mirrors the last entry.
+  revisions?: PromptRevision[];
+  ratings?: ABTestRating[];
+  favorite?: boolean;
+  tags?: string[];
+  notes?: string;
 }
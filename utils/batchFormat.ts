@@ -0,0 +1,146 @@
+import { parseCsv, toCsv } from './tableParser.ts';
+
+export type BatchFormat = 'text' | 'jsonl' | 'csv';
+
+/**
+ * One prompt of a batch. `source` keeps the original JSONL object or CSV row so
+ * the export can write it back with the refined prompt added.
+ */
+export interface BatchInputItem {
+  prompt: string;
+  source?: Record<string, unknown>;
+  /** Why the item is not sent, e.g. a JSONL or CSV row with an empty prompt. It stays in the export. */
+  skipped?: string;
+}
+
+export interface ParsedBatch {
+  format: BatchFormat;
+  items: BatchInputItem[];
+  /** CSV header, in input order. */
+  columns?: string[];
+  /** The JSONL key or CSV column the prompts were read from. */
+  promptField?: string;
+}
+
+export interface BatchOutputItem {
+  refined?: string;
+  error?: string;
+}
+
+// Fields tried, in order, to find the prompt in a JSONL object or CSV row.
+const PROMPT_FIELDS = ['prompt', 'text', 'input', 'content', 'query'];
+const TEXT_SEPARATOR = /^\s*---\s*$/m;
+
+const findPromptField = (keys: string[]) =>
+  PROMPT_FIELDS.map(f => keys.find(k => k.trim().toLowerCase() === f)).find(Boolean) ?? keys[0];
+
+/**
+ * Plain text: prompts separated by `---` lines, or by blank lines, or one per line.
+ */
+const parseTextBatch = (text: string): ParsedBatch => {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const separator = TEXT_SEPARATOR.test(normalized)
+    ? new RegExp(TEXT_SEPARATOR.source, 'gm')
+    : /\n\s*\n/.test(normalized.trim()) ? /\n\s*\n/ : /\n/;
+  const items = normalized.split(separator).map(p => p.trim()).filter(Boolean).map(prompt => ({ prompt }));
+  return { format: 'text', items };
+};
+
+const parseJsonlBatch = (text: string): ParsedBatch => {
+  const records = text.split(/\r?\n/).map((line, index) => ({ line: line.trim(), number: index + 1 })).filter(l => l.line);
+  const values = records.map(({ line, number }) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${number} is not valid JSON.`);
+    }
+  });
+  const objects = values.filter(v => v && typeof v === 'object' && !Array.isArray(v));
+  const promptField = objects.length ? findPromptField([...new Set(objects.flatMap(o => Object.keys(o)))]) : undefined;
+  const items = values.map((value, index) => {
+    if (typeof value === 'string') return { prompt: value, source: undefined };
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`Line ${records[index].number} must be a JSON object or string.`);
+    }
+    return { prompt: String(value[promptField!] ?? ''), source: value as Record<string, unknown> };
+  });
+  return { format: 'jsonl', items, promptField };
+};
+
+const parseCsvBatch = (text: string): ParsedBatch => {
+  const { columns, rows } = parseCsv(text.trim());
+  if (columns.length === 0) return { format: 'csv', items: [], columns };
+  const promptField = findPromptField(columns);
+  return {
+    format: 'csv',
+    items: rows.map(row => ({ prompt: row[promptField], source: row })),
+    columns,
+    promptField,
+  };
+};
+
+/**
+ * Guesses the format of pasted text: JSONL when every line is a JSON object or
+ * string, otherwise plain text. CSV is only used when asked for, since a list of
+ * prompts often contains commas.
+ */
+export const detectBatchFormat = (text: string, filename?: string): BatchFormat => {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl';
+  if (extension === 'txt' || extension === 'md') return 'text';
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  return lines.length > 0 && lines.every(l => /^[{"]/.test(l) && /[}"]$/.test(l)) ? 'jsonl' : 'text';
+};
+
+/**
+ * Splits batch input into prompts. JSONL and CSV rows with an empty prompt are
+ * kept but marked as skipped, so the export still has one row per input row.
+ * Throws when JSONL input has a line that is not a JSON object or string.
+ */
+export const parseBatch = (text: string, format: BatchFormat): ParsedBatch => {
+  const parsed = format === 'jsonl' ? parseJsonlBatch(text) : format === 'csv' ? parseCsvBatch(text) : parseTextBatch(text);
+  return {
+    ...parsed,
+    items: parsed.items.map(item => (item.prompt.trim() ? item : { ...item, skipped: "Empty prompt" })),
+  };
+};
+
+const uniqueField = (name: string, taken: string[]) => {
+  let field = name;
+  for (let n = 2; taken.includes(field); n++) field = `${name}_${n}`;
+  return field;
+};
+
+/**
+ * Writes results back in the input's format. JSONL and CSV keep every input
+ * field and add `refined` (and `error` for failed items); plain text lists the
+ * refined prompts, separated by `---` lines, with a one-line placeholder in place
+ * of each item that has none so the output still lines up with the input.
+ */
+export const formatBatchOutput = (batch: ParsedBatch, results: BatchOutputItem[]): string => {
+  if (batch.format === 'text') {
+    return batch.items
+      .map((_, index) => results[index]?.refined || `[Not refined: ${(results[index]?.error || 'not run').replace(/\s+/g, ' ').trim()}]`)
+      .join('\n\n---\n\n') + '\n';
+  }
+
+  const inputKeys = batch.format === 'csv'
+    ? batch.columns || []
+    : [...new Set(batch.items.flatMap(item => Object.keys(item.source || {})))];
+  const refinedField = uniqueField('refined', inputKeys);
+  const errorField = uniqueField('error', [...inputKeys, refinedField]);
+  const hasErrors = results.some(r => r.error);
+
+  const rows = batch.items.map((item, index) => ({
+    ...(item.source || { [batch.promptField || 'prompt']: item.prompt }),
+    [refinedField]: results[index]?.refined ?? '',
+    ...(hasErrors ? { [errorField]: results[index]?.error ?? '' } : {}),
+  }));
+
+  if (batch.format === 'jsonl') {
+    return rows.map(row => JSON.stringify(row)).join('\n') + '\n';
+  }
+  const columns = [...inputKeys, refinedField, ...(hasErrors ? [errorField] : [])];
+  return toCsv(columns, rows.map(row => Object.fromEntries(columns.map(c => [c, String(row[c as keyof typeof row] ?? '')])))) + '\n';
+};
@@ -0,0 +1,11 @@
+/**
+ * Triggers a browser download of text content.
+ */
+export const downloadFile = (filename: string, content: string, mimeType = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
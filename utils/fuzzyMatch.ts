@@ -0,0 +1,24 @@
+/**
+ * Scores how well `query` matches `text` as a subsequence (case-insensitive),
+ * or returns null when it does not match. Consecutive characters and matches at
+ * the start of a word score higher, so "cg" ranks "Cycle Goal" above "Clear Log".
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return 0;
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index < 0) return null;
+    score += 1;
+    if (index === previous + 1) score += 3;
+    if (index === 0 || /[\s\-_/.:]/.test(haystack[index - 1])) score += 5;
+    previous = index;
+    position = index + 1;
+  }
+  // Prefer shorter texts when the match is otherwise equal.
+  return score - haystack.length / 100;
+};
@@ -0,0 +1,46 @@
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// Translates a glob, or one `{a,b}` alternative of it, to regular expression source.
+const globSource = (pattern: string): string => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      i++;
+      if (pattern[i + 1] === '/') {
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i);
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(globSource).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+};
+
+/**
+ * Converts a glob to a regular expression over '/'-separated paths.
+ * Supports `**` (any number of directories), `*`, `?` and `{a,b}` alternatives,
+ * which may contain wildcards themselves.
+ */
+export const globToRegExp = (pattern: string): RegExp => new RegExp(`^${globSource(pattern)}$`);
+
+/**
+ * The leading directories of a glob that contain no wildcards, where a file walk can start.
+ */
+export const globBase = (pattern: string): string => {
+  const segments = pattern.split('/');
+  const firstWild = segments.findIndex(s => /[*?{]/.test(s));
+  const base = segments.slice(0, firstWild === -1 ? segments.length - 1 : firstWild).join('/');
+  return base || (pattern.startsWith('/') ? '/' : '.');
+};
@@ -0,0 +1,61 @@
+import { RefinementHistory } from "../types.ts";
+
+export interface HistoryFilter {
+  query: string;
+  goal: string;
+  model: string;
+  tag: string;
+  favoritesOnly: boolean;
+  /** Inclusive date bounds as yyyy-mm-dd strings from <input type="date">. */
+  from: string;
+  to: string;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  query: '',
+  goal: '',
+  model: '',
+  tag: '',
+  favoritesOnly: false,
+  from: '',
+  to: '',
+};
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+/**
+ * Full-text search over the original text, every revision, notes and tags.
+ * All whitespace-separated terms must match (case-insensitive).
+ */
+const matchesQuery = (entry: RefinementHistory, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [
+    entry.original,
+    entry.refined,
+    ...(entry.revisions || []).map(r => r.text),
+    entry.notes || '',
+    ...(entry.tags || []),
+  ].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+/**
+ * Applies the filter and sorts favorites first, then newest first.
+ */
+export const filterHistory = (entries: RefinementHistory[], filter: HistoryFilter): RefinementHistory[] =>
+  entries
+    .filter(entry =>
+      (!filter.goal || (entry.goalId || entry.goal) === filter.goal) &&
+      (!filter.model || entry.model === filter.model) &&
+      (!filter.tag || entry.tags?.includes(filter.tag)) &&
+      (!filter.favoritesOnly || entry.favorite) &&
+      (!filter.from || entry.timestamp >= startOfDay(filter.from)) &&
+      (!filter.to || entry.timestamp <= endOfDay(filter.to)) &&
+      matchesQuery(entry, filter.query)
+    )
+    .sort((a, b) => Number(!!b.favorite) - Number(!!a.favorite) || b.timestamp - a.timestamp);
+
+export const collectTags = (entries: RefinementHistory[]): string[] =>
+  [...new Set(entries.flatMap(e => e.tags || []))].sort((a, b) => a.localeCompare(b));
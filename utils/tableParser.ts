@@ -0,0 +1,84 @@
+export type TableRow = Record<string, string>;
+
+export interface ParsedTable {
+  columns: string[];
+  rows: TableRow[];
+}
+
+/**
+ * Parses CSV text with a header row. Supports quoted fields, escaped quotes ("")
+ * and newlines inside quotes.
+ */
+export const parseCsv = (text: string): ParsedTable => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) return { columns: [], rows: [] };
+
+  const columns = nonEmpty[0].map(c => c.trim());
+  const rows = nonEmpty.slice(1).map(r =>
+    Object.fromEntries(columns.map((column, index) => [column, r[index] ?? '']))
+  );
+  return { columns, rows };
+};
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (columns: string[], rows: TableRow[]): string =>
+  [columns, ...rows.map(row => columns.map(c => row[c] ?? ''))]
+    .map(r => r.map(escapeCsvField).join(','))
+    .join('\n');
+
+/**
+ * Parses either a JSON array of objects or CSV text with a header row.
+ * Throws when the input is JSON but not an array of objects.
+ */
+export const parseTable = (text: string): ParsedTable => {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('[')) return parseCsv(trimmed);
+
+  const parsed = JSON.parse(trimmed);
+  if (!Array.isArray(parsed) || parsed.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+    throw new Error("JSON input must be an array of objects.");
+  }
+  const columns = [...new Set(parsed.flatMap(row => Object.keys(row)))];
+  const rows = parsed.map(row =>
+    Object.fromEntries(columns.map(c => [c, row[c] == null ? '' : String(row[c])]))
+  );
+  return { columns, rows };
+};
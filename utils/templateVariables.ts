@@ -0,0 +1,35 @@
+// Matches {{name}} placeholders; whitespace inside the braces is tolerated.
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+/**
+ * True for placeholders left by the pre-flight redaction, which stand for a
+ * value the user already has rather than ask for one.
+ */
+export const isRedactionPlaceholder = (name: string) => name.startsWith('REDACTED_');
+
+/**
+ * Returns the distinct placeholder names in a template, in order of first appearance.
+ */
+export const extractVariables = (template: string): string[] => {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+};
+
+/**
+ * Substitutes placeholder values. Placeholders without a value are left untouched.
+ */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) && values[name] !== '' ? values[name] : placeholder
+  );
+
+/**
+ * Lists variables of the original template that no longer appear in the refined one.
+ */
+export const findMissingVariables = (original: string, refined: string): string[] => {
+  const kept = new Set(extractVariables(refined));
+  return extractVariables(original).filter(name => !kept.has(name));
+};
@@ -0,0 +1,63 @@
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many LCS cells the diff falls back to whole lines to stay responsive.
+const MAX_WORD_CELLS = 4_000_000;
+
+const tokenize = (text: string, byLine: boolean) =>
+  (byLine ? text.split(/(\n)/) : text.split(/(\s+)/)).filter(Boolean);
+
+/**
+ * Computes a word-level diff between two texts using a longest common subsequence.
+ * Adjacent segments of the same type are merged.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  let a = tokenize(before, false);
+  let b = tokenize(after, false);
+  if (a.length * b.length > MAX_WORD_CELLS) {
+    a = tokenize(before, true);
+    b = tokenize(after, true);
+  }
+
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < n) push('removed', a[i++]);
+  while (j < m) push('added', b[j++]);
+
+  return segments;
+};
@@ -2,7 +2,7 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       base: './',
@@ -11,6 +11,13 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      // `npm run build:cli` bundles cli/promptperfect.ts for Node as an executable script.
+      publicDir: isSsrBuild ? false : undefined,
+      build: isSsrBuild ? {
+        rollupOptions: {
+          output: { banner: '#!/usr/bin/env node' },
+        },
+      } : undefined,
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),